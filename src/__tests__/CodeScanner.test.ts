@@ -2,7 +2,13 @@ import { CodeScanner } from '../core/CodeScanner';
 import * as fs from 'fs';
 import * as path from 'path';
 
-jest.mock('fs');
+jest.mock('fs', () => ({
+  ...jest.requireActual('fs'),
+  promises: {
+    readFile: jest.fn(),
+    stat: jest.fn()
+  }
+}));
 jest.mock('glob');
 
 const mockFs = fs as jest.Mocked<typeof fs>;
@@ -14,6 +20,7 @@ describe('CodeScanner', () => {
   beforeEach(() => {
     scanner = new CodeScanner(mockProjectRoot);
     jest.clearAllMocks();
+    mockFs.promises.stat = jest.fn().mockResolvedValue({ size: 100, mtimeMs: 1 });
   });
 
   describe('scanProject', () => {
@@ -29,7 +36,9 @@ describe('CodeScanner', () => {
         .mockResolvedValueOnce('{"compilerOptions": {"jsx": "react-jsx"}}');
 
       const mockGlob = require('glob');
-      mockGlob.glob = jest.fn().mockResolvedValue(['/test/project/src/Component.tsx']);
+      mockGlob.glob = jest.fn()
+        .mockResolvedValueOnce([]) // ignore files
+        .mockResolvedValueOnce(['/test/project/src/Component.tsx']);
 
       const result = await scanner.scanProject();
 
@@ -49,7 +58,9 @@ describe('CodeScanner', () => {
         .mockRejectedValueOnce(new Error('File not found'));
 
       const mockGlob = require('glob');
-      mockGlob.glob = jest.fn().mockResolvedValue(['/test/project/src/Component.tsx']);
+      mockGlob.glob = jest.fn()
+        .mockResolvedValueOnce([]) // ignore files
+        .mockResolvedValueOnce(['/test/project/src/Component.tsx']);
 
       const result = await scanner.scanProject();
 
@@ -57,6 +68,131 @@ describe('CodeScanner', () => {
     });
   });
 
+  describe('workspaces', () => {
+    it('should build a context per workspace package', async () => {
+      const files: Record<string, string> = {
+        'package.json': JSON.stringify({ workspaces: ['packages/*'], dependencies: { react: '^18.0.0' } }),
+        'packages/ui/package.json': JSON.stringify({ name: '@acme/ui', dependencies: { clsx: '^2.0.0' } }),
+        // Comments and trailing commas, as tsc --init writes them
+        'packages/ui/tsconfig.json': '{\n  "compilerOptions": {\n    // JSX\n    "jsx": "react-jsx",\n  },\n}',
+        'packages/ui/src/Button.tsx': 'export const Button = () => <button />;',
+        'apps/web/App.tsx': 'export const App = () => <div />;'
+      };
+
+      mockFs.promises.readFile = jest.fn().mockImplementation(async (filePath: string) => {
+        const relativePath = path.relative(mockProjectRoot, filePath).split(path.sep).join('/');
+        if (relativePath in files) {
+          return files[relativePath];
+        }
+        throw new Error(`ENOENT: ${relativePath}`);
+      });
+
+      const mockGlob = require('glob');
+      mockGlob.glob = jest.fn()
+        .mockResolvedValueOnce([]) // ignore files
+        .mockResolvedValueOnce([
+          '/test/project/packages/ui/src/Button.tsx',
+          '/test/project/apps/web/App.tsx'
+        ])
+        .mockResolvedValueOnce(['packages/ui/package.json']);
+
+      const result = await scanner.scanProject();
+
+      expect(result.workspaces).toHaveLength(1);
+      expect(result.workspaces![0]).toMatchObject({
+        name: '@acme/ui',
+        root: path.join('packages', 'ui'),
+        dependencies: { clsx: '^2.0.0' },
+        tsConfig: { compilerOptions: { jsx: 'react-jsx' } }
+      });
+      expect(result.workspaces![0].projectFiles.map(file => file.path)).toEqual([
+        path.join('packages', 'ui', 'src', 'Button.tsx')
+      ]);
+    });
+  });
+
+  describe('tailwind', () => {
+    const scanWithFiles = async (files: Record<string, string>) => {
+      mockFs.promises.readFile = jest.fn().mockImplementation(async (filePath: string) => {
+        const relativePath = path.relative(mockProjectRoot, filePath);
+        if (relativePath in files) {
+          return files[relativePath];
+        }
+        throw new Error(`ENOENT: ${relativePath}`);
+      });
+
+      const mockGlob = require('glob');
+      mockGlob.glob = jest.fn().mockResolvedValue([]);
+
+      return scanner.scanProject();
+    };
+
+    it('should detect the Tailwind and PostCSS configs', async () => {
+      const result = await scanWithFiles({
+        'tailwind.config.ts': 'export default { content: ["./src/**/*.tsx"] };',
+        'postcss.config.js': 'module.exports = { plugins: { tailwindcss: {}, autoprefixer: {} } };'
+      });
+
+      expect(result.tailwind).toEqual({ configPath: 'tailwind.config.ts', postcssConfigPath: 'postcss.config.js' });
+    });
+
+    it('should only count PostCSS configs that load Tailwind', async () => {
+      expect((await scanWithFiles({
+        'postcss.config.mjs': 'export default { plugins: { "@tailwindcss/postcss": {} } };'
+      })).tailwind).toEqual({ postcssConfigPath: 'postcss.config.mjs' });
+      expect((await scanWithFiles({
+        'postcss.config.js': 'module.exports = { plugins: { autoprefixer: {} } };'
+      })).tailwind).toBeUndefined();
+    });
+  });
+
+  describe('scan filtering', () => {
+    it('should skip files larger than maxFileSize', async () => {
+      scanner = new CodeScanner(mockProjectRoot, { maxFileSize: 10 });
+
+      mockFs.promises.readFile = jest.fn().mockResolvedValue('{}');
+
+      const mockGlob = require('glob');
+      mockGlob.glob = jest.fn()
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce(['/test/project/src/Huge.tsx']);
+
+      const result = await scanner.scanProject();
+
+      expect(result.projectFiles).toHaveLength(0);
+    });
+
+    it('should apply include and exclude globs', () => {
+      scanner = new CodeScanner(mockProjectRoot, {
+        include: ['src/**/*.tsx'],
+        exclude: ['**/*.stories.tsx']
+      });
+
+      expect(scanner.isSourceFile('src/Button.tsx')).toBe(true);
+      expect(scanner.isSourceFile('src/Button.stories.tsx')).toBe(false);
+      expect(scanner.isSourceFile('src/utils.ts')).toBe(false);
+      expect(scanner.isSourceFile('scripts/build.tsx')).toBe(false);
+    });
+
+    it('should honor nested ignore files', async () => {
+      mockFs.promises.readFile = jest.fn().mockImplementation(async (filePath: string) =>
+        filePath.endsWith('.partrenderignore') ? 'fixtures/\n!fixtures/keep.ts' : 'generated.ts'
+      );
+
+      const mockGlob = require('glob');
+      mockGlob.glob = jest.fn()
+        .mockResolvedValueOnce(['.gitignore', path.join('src', '.partrenderignore')])
+        .mockResolvedValueOnce([]);
+
+      await scanner.scanProject();
+
+      expect(scanner.isSourceFile('src/generated.ts')).toBe(false);
+      expect(scanner.isSourceFile('src/fixtures/data.ts')).toBe(false);
+      expect(scanner.isSourceFile('fixtures/data.ts')).toBe(true);
+      expect(scanner.isSourceFile('src/Button.tsx')).toBe(true);
+    });
+  });
+
   describe('findExports', () => {
     it('should extract exports from file content', () => {
       const files = [
@@ -87,6 +223,39 @@ describe('CodeScanner', () => {
     });
   });
 
+  describe('applyChanges', () => {
+    it('should apply add, change and unlink deltas in place', () => {
+      const context = {
+        projectFiles: [
+          { path: 'src/a.ts', content: 'export const a = 1;', type: 'ts' as const },
+          { path: 'src/b.ts', content: 'export const b = 1;', type: 'ts' as const }
+        ],
+        dependencies: {}
+      };
+      const projectFiles = context.projectFiles;
+
+      scanner.applyChanges(context, [
+        { type: 'change', path: 'src/a.ts', file: { path: 'src/a.ts', content: 'export const a = 2;', type: 'ts' } },
+        { type: 'unlink', path: 'src/b.ts' },
+        { type: 'add', path: 'src/c.tsx', file: { path: 'src/c.tsx', content: 'export const C = 1;', type: 'tsx' } }
+      ]);
+
+      expect(context.projectFiles).toBe(projectFiles);
+      expect(context.projectFiles.map(file => file.path)).toEqual(['src/a.ts', 'src/c.tsx']);
+      expect(context.projectFiles[0].content).toBe('export const a = 2;');
+    });
+  });
+
+  describe('isSourceFile', () => {
+    it('should skip excluded directories and non-source extensions', () => {
+      expect(scanner.isSourceFile('src/Button.tsx')).toBe(true);
+      expect(scanner.isSourceFile('/test/project/src/index.ts')).toBe(true);
+      expect(scanner.isSourceFile('node_modules/react/index.js')).toBe(false);
+      expect(scanner.isSourceFile('README.md')).toBe(false);
+      expect(scanner.isSourceFile('/elsewhere/file.ts')).toBe(false);
+    });
+  });
+
   describe('findFilesByPattern', () => {
     it('should find files matching pattern', () => {
       const files = [
@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CompilationCache, getBundleInputs } from '../core/CompilationCache';
+
+describe('CompilationCache', () => {
+  let projectRoot: string;
+  let contents: Record<string, string>;
+  const readContent = (filePath: string) => contents[filePath];
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'part-render-cache-'));
+    contents = {
+      '/project/src/Button.tsx': 'export const Button = () => null;'
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should serve a stored result while its inputs are unchanged', async () => {
+    const cache = new CompilationCache(projectRoot);
+    const key = CompilationCache.createKey('snippet', { code: '<Button />' });
+
+    expect(await cache.get(key, readContent)).toBeNull();
+    await cache.set(key, { code: 'compiled', css: 'a {}', topLevelAwait: true }, ['/project/src/Button.tsx'], readContent);
+
+    expect(await cache.get(key, readContent)).toEqual({ code: 'compiled', css: 'a {}', warnings: undefined, topLevelAwait: true });
+    expect(cache.getStats(key, true)).toMatchObject({ hits: 1, misses: 1, size: 1 });
+  });
+
+  it('should invalidate an entry when a file of its graph changes', async () => {
+    const cache = new CompilationCache(projectRoot);
+    const key = CompilationCache.createKey('snippet');
+    await cache.set(key, { code: 'compiled' }, ['/project/src/Button.tsx'], readContent);
+
+    contents['/project/src/Button.tsx'] = 'export const Button = () => "changed";';
+
+    expect(await cache.get(key, readContent)).toBeNull();
+    expect(cache.getStats(key, false).size).toBe(0);
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const cache = new CompilationCache(projectRoot, { maxEntries: 2 });
+    await cache.set('a', { code: 'a' }, []);
+    await cache.set('b', { code: 'b' }, []);
+    await cache.get('a');
+    await cache.set('c', { code: 'c' }, []);
+
+    expect(await cache.get('a')).not.toBeNull();
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('c')).not.toBeNull();
+  });
+
+  it('should persist entries to disk when enabled', async () => {
+    const sourceFile = path.join(projectRoot, 'Button.tsx');
+    fs.writeFileSync(sourceFile, 'export const Button = () => null;');
+
+    await new CompilationCache(projectRoot, { persist: true }).set('key', { code: 'compiled' }, [sourceFile]);
+    const restored = new CompilationCache(projectRoot, { persist: true });
+
+    expect(fs.existsSync(path.join(projectRoot, '.part-render', 'cache', 'key.json'))).toBe(true);
+    expect(await restored.get('key')).toEqual({ code: 'compiled' });
+  });
+
+  it('should keep only the most recently used entries on disk', async () => {
+    const cache = new CompilationCache(projectRoot, { persist: true, maxEntries: 2 });
+    const entryFiles = () => fs.readdirSync(path.join(projectRoot, '.part-render', 'cache')).sort();
+    const later = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    await cache.set('a', { code: 'a' }, []);
+    await later(20);
+    await cache.set('b', { code: 'b' }, []);
+    await later(20);
+    await cache.get('a');
+    await later(20);
+    await cache.set('c', { code: 'c' }, []);
+
+    expect(entryFiles()).toEqual(['a.json', 'c.json']);
+  });
+
+  it('should share one cache per project unless disabled', () => {
+    expect(CompilationCache.forProject(projectRoot, { enabled: false })).toBeNull();
+    expect(CompilationCache.forProject(projectRoot)).toBe(CompilationCache.forProject(projectRoot));
+  });
+
+  describe('getBundleInputs', () => {
+    it('should resolve metafile inputs and skip stdin', () => {
+      const inputs = getBundleInputs({
+        inputs: { 'App.tsx': {}, 'src/Button.tsx': {}, 'virtual:env': {} }
+      }, '/project', 'App.tsx');
+
+      expect(inputs).toEqual([path.resolve('/project', 'src/Button.tsx')]);
+    });
+  });
+});
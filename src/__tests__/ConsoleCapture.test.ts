@@ -0,0 +1,63 @@
+import * as esbuild from 'esbuild';
+import { createConsoleCapture } from '../runtime/ConsoleCapture';
+import { LogEntry } from '../types';
+import { withSourceURL } from '../utils/SourceMapper';
+
+describe('ConsoleCapture', () => {
+  const capture = () => {
+    const entries: LogEntry[] = [];
+    return { entries, console: createConsoleCapture(entry => entries.push(entry)) };
+  };
+
+  it('should inspect objects instead of stringifying them', () => {
+    const { entries, console } = capture();
+
+    console.info('user %s', 'ada', { roles: ['admin'], a: { b: { c: { d: { e: 1 } } } } });
+
+    expect(entries[0]).toMatchObject({
+      level: 'info',
+      message: "user ada { roles: [ 'admin' ], a: { b: { c: { d: [Object] } } } }",
+      args: ['user %s', 'ada', "{ roles: [ 'admin' ], a: { b: { c: { d: [Object] } } } }"],
+      groupDepth: 0
+    });
+    expect(typeof entries[0].timestamp).toBe('number');
+  });
+
+  it('should render tables and track group depth', () => {
+    const { entries, console } = capture();
+
+    console.group('rows');
+    console.table([{ a: 1 }]);
+    console.groupEnd();
+    console.debug('done');
+
+    expect(entries.map(entry => [entry.level, entry.groupDepth])).toEqual([
+      ['group', 0],
+      ['table', 1],
+      ['debug', 0]
+    ]);
+    expect(entries[1].message).toContain('│ (index) │ a │');
+  });
+
+  it('should only log failed assertions', () => {
+    const { entries, console } = capture();
+
+    console.assert(true, 'fine');
+    console.assert(false, 'broken');
+
+    expect(entries).toEqual([expect.objectContaining({ level: 'error', message: 'Assertion failed: broken' })]);
+  });
+
+  it('should locate console calls in the original source', () => {
+    const { code, map } = esbuild.transformSync(
+      "const a = 1;\n\nconsole.log('here', a);",
+      { loader: 'tsx', sourcemap: 'external', sourcefile: 'App.tsx' }
+    );
+    const entries: LogEntry[] = [];
+    const capturedConsole = createConsoleCapture(entry => entries.push(entry), { sourceMap: map, lineOffset: 2 });
+
+    new Function('console', withSourceURL(code))(capturedConsole);
+
+    expect(entries[0].location).toMatchObject({ file: 'App.tsx', line: 3, column: 9 });
+  });
+});
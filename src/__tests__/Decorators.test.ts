@@ -0,0 +1,35 @@
+import * as React from 'react';
+import * as ReactDOMServer from 'react-dom/server';
+import { decorateComponent } from '../preview/Decorators';
+import type { PreviewConfig } from '../types';
+
+describe('decorateComponent', () => {
+  const Label = ({ text }: { text: string }) => React.createElement('span', null, text);
+  const render = (config: PreviewConfig | undefined, props: Record<string, any>) =>
+    ReactDOMServer.renderToStaticMarkup(React.createElement(decorateComponent(React, Label, config, 'Label'), props));
+
+  it('should return the component itself without decorators', () => {
+    expect(decorateComponent(React, Label, undefined, 'Label')).toBe(Label);
+    expect(decorateComponent(React, Label, { components: { Other: { decorators: [Story => React.createElement(Story)] } } }, 'Label'))
+      .toBe(Label);
+  });
+
+  it('should wrap the component\'s own decorators in the global ones, each in the ones before it', () => {
+    const wrapIn = (tag: string) => (Story: React.ComponentType<any>) => React.createElement(tag, null, React.createElement(Story));
+    const config: PreviewConfig = {
+      decorators: [wrapIn('main'), wrapIn('body')],
+      components: { Label: { decorators: [wrapIn('section')] } }
+    };
+
+    expect(render(config, { text: 'Hi' })).toBe('<body><main><section><span>Hi</span></section></main></body>');
+  });
+
+  it('should pass the props on to the story, letting a decorator override them', () => {
+    const config: PreviewConfig = {
+      decorators: [(Story, { componentName, props }) => React.createElement('div', { title: `${componentName} ${props.text}` },
+        React.createElement(Story, { text: props.text.toUpperCase() }))]
+    };
+
+    expect(render(config, { text: 'hi' })).toBe('<div title="Label hi"><span>HI</span></div>');
+  });
+});
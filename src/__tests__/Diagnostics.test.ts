@@ -0,0 +1,85 @@
+import * as esbuild from 'esbuild';
+import { fromEsbuildError, fromMappedError, formatDiagnostics } from '../utils/Diagnostics';
+
+describe('Diagnostics', () => {
+  const transformError = async (code: string): Promise<unknown> => {
+    try {
+      await esbuild.transform(code, { loader: 'tsx', sourcefile: 'App.tsx', logLevel: 'silent' });
+    } catch (error) {
+      return error;
+    }
+    throw new Error('Expected the transform to fail');
+  };
+
+  describe('fromEsbuildError', () => {
+    it('should turn esbuild messages into located parse diagnostics', async () => {
+      const diagnostics = fromEsbuildError(await transformError('const a = 1;\nconst b = <div>;'));
+
+      expect(diagnostics[0]).toMatchObject({
+        severity: 'error',
+        phase: 'parse',
+        file: 'App.tsx',
+        range: { start: { line: 2 } }
+      });
+    });
+
+    it('should offer esbuild suggestions as fixes', async () => {
+      const [diagnostic] = fromEsbuildError(await transformError('<div>'));
+
+      expect(diagnostic.fixes?.[0].edit?.newText).toBe('</div>');
+    });
+
+    it('should classify unresolved imports as resolve errors', () => {
+      const [diagnostic] = fromEsbuildError({
+        errors: [{
+          id: '',
+          pluginName: '',
+          text: 'Could not resolve "./missing"',
+          location: null,
+          notes: [],
+          detail: undefined
+        }]
+      });
+
+      expect(diagnostic.phase).toBe('resolve');
+    });
+
+    it('should fall back to the error message for anything else', () => {
+      expect(fromEsbuildError(new Error('boom'))).toEqual([
+        expect.objectContaining({ severity: 'error', message: 'boom', phase: 'compile' })
+      ]);
+    });
+  });
+
+  describe('fromMappedError', () => {
+    it('should locate runtime errors at the innermost mapped frame', () => {
+      const error = new TypeError('x is not a function');
+      const diagnostic = fromMappedError(error, {
+        message: error.message,
+        frames: [{ file: 'src/Card.tsx', line: 4, column: 7 }]
+      }, 'runtime');
+
+      expect(diagnostic).toMatchObject({
+        code: 'TypeError',
+        file: 'src/Card.tsx',
+        range: { start: { line: 4, column: 7 } },
+        phase: 'runtime'
+      });
+    });
+  });
+
+  describe('formatDiagnostics', () => {
+    it('should print located errors and skip warnings', () => {
+      expect(formatDiagnostics([
+        {
+          severity: 'error',
+          message: 'Unexpected "}"',
+          file: 'App.tsx',
+          range: { start: { line: 3, column: 5 }, end: { line: 3, column: 6 } },
+          phase: 'parse'
+        },
+        { severity: 'warning', message: 'Unused', phase: 'compile' }
+      ])).toBe('App.tsx:3:5: Unexpected "}"');
+    });
+  });
+});
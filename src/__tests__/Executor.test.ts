@@ -0,0 +1,145 @@
+import * as esbuild from 'esbuild';
+import { Executor } from '../runtime/Executor';
+
+describe('Executor', () => {
+  let executor: Executor;
+
+  beforeEach(() => {
+    executor = new Executor({ timeout: 2000 });
+  });
+
+  afterEach(() => {
+    executor.dispose();
+  });
+
+  it('should return module.exports and captured logs', async () => {
+    const result = await executor.executeCode(
+      "console.log('count', { a: 1 });\nconsole.warn('careful');\nmodule.exports = { value: 42, render() {} };"
+    );
+
+    expect(result).toMatchObject({
+      success: true,
+      output: { value: 42, render: '[Function: render]' },
+      logs: [
+        { level: 'log', message: 'count { a: 1 }', args: ['count', '{ a: 1 }'] },
+        { level: 'warn', message: 'careful' }
+      ]
+    });
+  });
+
+  it('should map thrown errors back to the original source', async () => {
+    const { code } = esbuild.transformSync(
+      "const a = 1;\nfunction boom() {\n  throw new Error('bad');\n}\nboom();",
+      { loader: 'tsx', format: 'cjs', sourcemap: 'inline', sourcefile: 'App.tsx' }
+    );
+
+    const result = await executor.executeCode(code);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('bad');
+    expect(result.frames?.[0]).toMatchObject({ file: 'App.tsx', line: 3, functionName: 'boom' });
+  });
+
+  it('should terminate snippets that run past the timeout', async () => {
+    const result = await new Executor({ timeout: 200 }).executeCode('while (true) {}');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/timed out after 200ms/);
+  });
+
+  it('should not leak globals into the host', async () => {
+    const result = await executor.executeCode('globalThis.leaked = true;\nmodule.exports = typeof process;');
+
+    expect(result.output).toBe('undefined');
+    expect((globalThis as Record<string, unknown>).leaked).toBeUndefined();
+  });
+
+  it('should report which import the sandbox blocked', async () => {
+    const result = await executor.executeCode("const fs = require('fs');\nmodule.exports = fs.readdirSync('/');");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Import of "fs" was blocked by the sandbox');
+    expect(result.diagnostics?.[0].code).toBe('ModuleBlockedError');
+  });
+
+  it('should load allowed project modules and mocks', async () => {
+    const result = await new Executor({
+      timeout: 2000,
+      modules: { allow: ['react'], mocks: { axios: { get: 'stub' } } }
+    }).executeCode("module.exports = [typeof require('react').createElement, require('axios').get];");
+
+    expect(result.output).toEqual(['function', 'stub']);
+  });
+
+  describe('async mode', () => {
+    const asyncExecutor = () => new Executor({ timeout: 3000, async: true, settleTimeout: 500 });
+
+    it('should wait for pending timers and promise chains', async () => {
+      const result = await asyncExecutor().executeCode(
+        "setTimeout(() => Promise.resolve().then(() => console.log('done')), 20);\nmodule.exports = 1;"
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.logs?.map(entry => entry.message)).toEqual(['done']);
+    });
+
+    it('should resolve exported promises', async () => {
+      const result = await asyncExecutor().executeCode(
+        'module.exports = new Promise(resolve => setTimeout(() => resolve({ ok: true }), 20));'
+      );
+
+      expect(result.output).toEqual({ ok: true });
+    });
+
+    it('should report unhandled rejections as failures', async () => {
+      const result = await asyncExecutor().executeCode("Promise.reject(new Error('nobody listens'));");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('nobody listens');
+    });
+
+    it('should warn about timers still pending after the settle timeout', async () => {
+      const result = await asyncExecutor().executeCode('setTimeout(() => {}, 10000);');
+
+      expect(result.success).toBe(true);
+      expect(result.diagnostics).toEqual([expect.objectContaining({ severity: 'warning', phase: 'runtime' })]);
+    });
+  });
+
+  describe('virtual clock', () => {
+    it('should render the same times and random numbers on every run', async () => {
+      const code = 'module.exports = [new Date().toISOString(), Math.random()];';
+      const run = () => new Executor({ timeout: 2000, clock: { now: '2024-05-01T12:00:00Z', seed: 42 } }).executeCode(code);
+
+      const [first, second] = [await run(), await run()];
+
+      expect(first.output[0]).toBe('2024-05-01T12:00:00.000Z');
+      expect(first.output).toEqual(second.output);
+    });
+
+    it('should fire timers by advancing the clock', async () => {
+      const result = await new Executor({ timeout: 2000, clock: { advance: 1000 } }).executeCode(
+        "let ticks = 0;\nsetInterval(() => ticks++, 300);\nsetTimeout(() => console.log('ticks', ticks), 1000);"
+      );
+
+      expect(result.logs?.map(entry => entry.message)).toEqual(['ticks 3']);
+    });
+  });
+
+  describe('network', () => {
+    it('should answer fetch from the mock table and record requests', async () => {
+      const result = await new Executor({
+        timeout: 3000,
+        async: true,
+        network: { mocks: [{ url: 'https://api.example.com/user', body: { name: 'Ada' } }] }
+      }).executeCode(
+        "module.exports = fetch('https://api.example.com/user').then(response => response.json());\n" +
+        "fetch('https://elsewhere.example.com').catch(error => console.log(error.message));"
+      );
+
+      expect(result.output).toEqual({ name: 'Ada' });
+      expect(result.logs?.[0].message).toMatch(/no network mock matches GET https:\/\/elsewhere\.example\.com/);
+      expect(result.requests?.map(request => request.handledBy)).toEqual(['mock', 'blocked']);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { ExportIndex } from '../core/ExportIndex';
+import { ProjectFile } from '../types';
+
+describe('ExportIndex', () => {
+  const createFiles = (files: Record<string, string>): ProjectFile[] =>
+    Object.entries(files).map(([path, content]) => ({
+      path,
+      content,
+      type: path.endsWith('.tsx') ? 'tsx' : 'ts'
+    }));
+
+  describe('getExports', () => {
+    it('should classify values, types, enums and defaults', () => {
+      const index = new ExportIndex(createFiles({
+        'Button.tsx': [
+          'export interface ButtonProps { label: string }',
+          'export type Size = "sm" | "lg";',
+          'export enum Variant { Primary, Secondary }',
+          'export const Button = (props: ButtonProps) => null;',
+          'export default () => null;'
+        ].join('\n')
+      }));
+
+      const exports = index.getExports('Button.tsx');
+
+      expect(exports).toEqual(expect.arrayContaining([
+        expect.objectContaining({ name: 'ButtonProps', kind: 'type' }),
+        expect.objectContaining({ name: 'Size', kind: 'type' }),
+        expect.objectContaining({ name: 'Variant', kind: 'value' }),
+        expect.objectContaining({ name: 'Button', kind: 'value' }),
+        expect.objectContaining({ name: 'default', localName: 'Button', kind: 'default' })
+      ]));
+    });
+
+    it('should follow re-export chains through barrel files', () => {
+      const index = new ExportIndex(createFiles({
+        'src/components/Button.tsx': 'export const Button = () => null;\nexport type ButtonProps = {};',
+        'src/components/Card.tsx': 'export default function Card() { return null; }',
+        'src/components/index.ts': [
+          "export * from './Button';",
+          "export { default as Card } from './Card';"
+        ].join('\n'),
+        'src/index.ts': "export { Button as PrimaryButton, Card } from './components';"
+      }));
+
+      const exports = index.getExports('src/index.ts');
+      const primary = exports.find(entry => entry.name === 'PrimaryButton');
+      const card = exports.find(entry => entry.name === 'Card');
+
+      expect(primary).toMatchObject({
+        kind: 'value',
+        file: 'src/index.ts',
+        originalFile: 'src/components/Button.tsx',
+        reexportPath: ['src/components/index.ts']
+      });
+      expect(card).toMatchObject({
+        kind: 'value',
+        originalFile: 'src/components/Card.tsx'
+      });
+      expect(index.getExports('src/components/index.ts')).toEqual(expect.arrayContaining([
+        expect.objectContaining({ name: 'ButtonProps', kind: 'type' })
+      ]));
+    });
+
+    it('should treat re-exported imports as type or value by their origin', () => {
+      const index = new ExportIndex(createFiles({
+        'types.ts': 'export interface User { id: string }\nexport const createUser = () => ({ id: "1" });',
+        'index.ts': "import { User, createUser } from './types';\nexport { User, createUser };"
+      }));
+
+      const exports = index.getExports('index.ts');
+
+      expect(exports.find(entry => entry.name === 'User')?.kind).toBe('type');
+      expect(exports.find(entry => entry.name === 'createUser')?.kind).toBe('value');
+    });
+
+    it('should keep re-exports from packages as external', () => {
+      const index = new ExportIndex(createFiles({
+        'index.ts': "export { format } from 'date-fns';"
+      }));
+
+      expect(index.getExports('index.ts')).toEqual([
+        expect.objectContaining({ name: 'format', externalModule: 'date-fns' })
+      ]);
+    });
+
+    it('should survive circular re-exports', () => {
+      const index = new ExportIndex(createFiles({
+        'a.ts': "export * from './b';\nexport const a = 1;",
+        'b.ts': "export * from './a';\nexport const b = 1;"
+      }));
+
+      expect(index.getExports('a.ts').map(entry => entry.name).sort()).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('findByName', () => {
+    it('should match default exports by declared name', () => {
+      const index = new ExportIndex(createFiles({
+        'Header.tsx': 'const Header = () => null;\nexport default Header;'
+      }));
+
+      expect(index.findByName('Header')).toEqual([
+        expect.objectContaining({ kind: 'default', file: 'Header.tsx' })
+      ]);
+    });
+  });
+
+  describe('forFiles', () => {
+    it('should share one index per file list and pick up content changes', () => {
+      const files = createFiles({ 'a.ts': 'export const a = 1;' });
+
+      const index = ExportIndex.forFiles(files);
+      files[0] = { ...files[0], content: 'export const renamed = 1;' };
+
+      expect(ExportIndex.forFiles(files)).toBe(index);
+      expect(index.getExports('a.ts').map(entry => entry.name)).toEqual(['renamed']);
+    });
+  });
+});
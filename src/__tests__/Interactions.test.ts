@@ -0,0 +1,75 @@
+import { InteractionError, InteractionTarget, performInteraction } from '../preview/Interactions';
+import { DEFAULT_CLOCK_TIME, VirtualClock } from '../runtime/VirtualClock';
+
+// jsdom ships without type declarations
+const { JSDOM } = require('jsdom');
+
+const createTarget = (html: string, clock = new VirtualClock()): InteractionTarget => {
+  const dom = new JSDOM(`<!DOCTYPE html><html><body>${html}</body></html>`);
+  return {
+    window: dom.window,
+    act: async callback => callback(),
+    wait: async ms => clock.tick(ms)
+  };
+};
+
+describe('performInteraction', () => {
+  it('should click the matched element', async () => {
+    const target = createTarget('<button id="save">Save</button>');
+    const clicks: string[] = [];
+    target.window.document.body.addEventListener('click', (event: any) => clicks.push(event.target.id));
+
+    await performInteraction(target, { type: 'click', selector: '#save' });
+
+    expect(clicks).toEqual(['save']);
+  });
+
+  it('should type after the current value, one input event per key', async () => {
+    const target = createTarget('<input id="name" value="A">');
+    const input = target.window.document.getElementById('name');
+    const values: string[] = [];
+    input.addEventListener('input', () => values.push(input.value));
+
+    await performInteraction(target, { type: 'type', selector: '#name', text: 'da' });
+
+    expect(values).toEqual(['Ad', 'Ada']);
+    expect(target.window.document.activeElement).toBe(input);
+  });
+
+  it('should submit the form an element is in', async () => {
+    const target = createTarget('<form id="login"><input id="user"></form>');
+    const submitted: string[] = [];
+    target.window.document.addEventListener('submit', (event: any) => {
+      event.preventDefault();
+      submitted.push(event.target.id);
+    });
+
+    await performInteraction(target, { type: 'submit', selector: '#user' });
+
+    expect(submitted).toEqual(['login']);
+  });
+
+  it('should let time pass until the selector matches', async () => {
+    const clock = new VirtualClock();
+    const target = createTarget('<div id="list"></div>', clock);
+    const { setTimeout: virtualSetTimeout } = clock.globals as { setTimeout: typeof setTimeout };
+    virtualSetTimeout(() => {
+      target.window.document.getElementById('list').innerHTML = '<li class="item">Loaded</li>';
+    }, 300);
+
+    await performInteraction(target, { type: 'waitFor', selector: '.item' });
+
+    expect(clock.getNow()).toBe(DEFAULT_CLOCK_TIME + 300);
+  });
+
+  it('should fail with an InteractionError when nothing matches', async () => {
+    const target = createTarget('<p>Empty</p>');
+
+    await expect(performInteraction(target, { type: 'click', selector: '#missing' }))
+      .rejects.toThrow(new InteractionError({ type: 'click', selector: '#missing' }, 'no element matches the selector'));
+    await expect(performInteraction(target, { type: 'waitFor', selector: '.never', timeout: 50 }))
+      .rejects.toThrow('waitFor ".never" failed: no element matched within 50ms');
+    await expect(performInteraction(target, { type: 'type', selector: 'p', text: 'x' }))
+      .rejects.toThrow('<p> does not take text input');
+  });
+});
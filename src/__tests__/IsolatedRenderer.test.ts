@@ -0,0 +1,205 @@
+import * as path from 'path';
+import { IsolatedRenderer } from '../preview/IsolatedRenderer';
+import { logger, LogCategory } from '../utils/Logger';
+
+describe('IsolatedRenderer', () => {
+  const projectRoot = path.join(__dirname, '../..');
+  let renderer: IsolatedRenderer;
+
+  beforeEach(() => {
+    renderer = new IsolatedRenderer(projectRoot);
+  });
+
+  afterEach(() => {
+    renderer.dispose();
+  });
+
+  const bodyOf = (html: string) => html.match(/<div id="root">([\s\S]*)<\/div>\s*<\/body>/)?.[1];
+
+  describe('concurrent renders', () => {
+    // Writes a marker to the window, and reads it back after yielding to the other render
+    const markerCode = (marker: string) => `
+      window.marker = '${marker}';
+      globalThis.globalMarker = '${marker}';
+      let seen;
+      const ready = new Promise(resolve => setTimeout(() => {
+        seen = window.marker + ':' + globalThis.globalMarker + ':' + marker;
+        resolve();
+      }, 20));
+      function Reader() {
+        if (seen === undefined) throw ready;
+        return React.createElement('span', null, seen);
+      }
+      exports.default = () => React.createElement(React.Suspense, { fallback: 'Loading' }, React.createElement(Reader));
+    `;
+
+    it('should give each render its own window', async () => {
+      const [first, second] = await Promise.all([
+        renderer.render({ compiledCode: markerCode('first'), streaming: true }),
+        renderer.render({ compiledCode: markerCode('second'), streaming: true })
+      ]);
+
+      expect(first.error).toBeUndefined();
+      expect(bodyOf(first.html)).toContain('<span>first:first:first</span>');
+      expect(bodyOf(second.html)).toContain('<span>second:second:second</span>');
+    });
+
+    it('should leave no window or document on the host', async () => {
+      await renderer.render({ compiledCode: markerCode('host') });
+
+      expect((global as any).window).toBeUndefined();
+      expect((global as any).document).toBeUndefined();
+      expect((global as any).marker).toBeUndefined();
+    });
+
+    it('should render the same code to the same html', async () => {
+      const first = await renderer.render({ compiledCode: markerCode('again'), streaming: true });
+      const second = await renderer.render({ compiledCode: markerCode('again'), streaming: true });
+
+      expect(second.html).toBe(first.html);
+    });
+  });
+
+  describe('mount mode', () => {
+    const counterCode = `
+      function Counter() {
+        const [count, setCount] = React.useState(0);
+        const [mounted, setMounted] = React.useState(false);
+        React.useEffect(() => {
+          setMounted(true);
+          return () => console.log('unmounted');
+        }, []);
+        return React.createElement('button', { onClick: () => setCount(count + 1) },
+          (mounted ? 'mounted' : 'server') + ' ' + count);
+      }
+      exports.default = Counter;
+    `;
+
+    it('should run effects, update state on a click and unmount afterwards', async () => {
+      const serverOnly = await renderer.render({ compiledCode: counterCode });
+      const mounted = await renderer.render({ compiledCode: counterCode, mount: true });
+      const clicked = await renderer.render({
+        compiledCode: counterCode,
+        interactions: [{ type: 'click', selector: 'button' }, { type: 'click', selector: 'button' }]
+      });
+
+      expect(bodyOf(serverOnly.html)).toBe('<button>server 0</button>');
+      expect(bodyOf(mounted.html)).toBe('<button>mounted 0</button>');
+      expect(bodyOf(clicked.html)).toBe('<button>mounted 2</button>');
+      expect(clicked.logs?.map(entry => entry.message)).toEqual(['unmounted']);
+    });
+
+    it('should report an error thrown in an event handler', async () => {
+      const result = await renderer.render({
+        compiledCode: `exports.default = () => React.createElement('button', {
+          onClick: () => { throw new Error('Save failed'); }
+        }, 'Save');`,
+        interactions: [{ type: 'click', selector: 'button' }]
+      });
+
+      expect(result.error).toBe('Save failed');
+      expect(result.diagnostics?.[0]).toMatchObject({ phase: 'interaction', message: 'Save failed' });
+    });
+
+    it('should report an error thrown in an effect while hydrating', async () => {
+      const result = await renderer.render({
+        compiledCode: `exports.default = () => {
+          React.useEffect(() => { throw new Error('Effect failed'); }, []);
+          return React.createElement('div', null, 'Hydrated');
+        };`,
+        mount: true
+      });
+
+      expect(result.error).toBe('Effect failed');
+      expect(result.diagnostics?.[0]).toMatchObject({ phase: 'render', message: 'Effect failed' });
+    });
+  });
+
+  describe('render errors', () => {
+    it('should report timers that never stop scheduling new ones', async () => {
+      const result = await renderer.render({
+        compiledCode: `
+          const loop = () => setTimeout(loop, 0);
+          loop();
+          exports.default = () => React.createElement('div', null, 'Never');
+        `,
+        clock: { loopLimit: 100 }
+      });
+
+      expect(result.error).toMatch(/^Aborted after running 100 timers/);
+      expect(result.diagnostics?.[0]).toMatchObject({ severity: 'error', phase: 'runtime' });
+    });
+
+    it('should find the failing component without writing to the host console', async () => {
+      const hostOutput = (['log', 'warn', 'error'] as const).map(method => jest.spyOn(console, method));
+      // Only output from React is of interest here, not the renderer's own logging
+      logger.configure({ disabledCategories: [LogCategory.PREVIEW] });
+
+      try {
+        let rendering = true;
+        const rendered = renderer.render({
+          compiledCode: `
+            function Broken() { throw new Error('Broken child'); }
+            function Panel() {
+              const [open] = React.useState(true);
+              return React.createElement('section', null, open && React.createElement(Broken));
+            }
+            exports.default = Panel;
+          `
+        }).finally(() => {
+          rendering = false;
+        });
+        // The host's own output has to get through while the render runs
+        let hostCalls = 0;
+        while (rendering) {
+          console.error('host');
+          hostCalls++;
+          await new Promise(resolve => setImmediate(resolve));
+        }
+        const result = await rendered;
+
+        expect(result.error).toBe('Broken child');
+        expect(result.componentStack).toMatch(/^\s*at Broken/);
+        const [log, warn, error] = hostOutput;
+        expect(log).not.toHaveBeenCalled();
+        expect(warn).not.toHaveBeenCalled();
+        expect(error.mock.calls).toEqual(Array(hostCalls).fill(['host']));
+      } finally {
+        hostOutput.forEach(spy => spy.mockRestore());
+        logger.configure({ disabledCategories: [] });
+      }
+    });
+  });
+
+  describe('CSS-in-JS styles', () => {
+    const headOf = (html: string) => html.match(/<head>([\s\S]*)<\/head>/)![1];
+
+    it('should put the styles styled-components generated in the head', async () => {
+      const result = await renderer.render({
+        compiledCode: `
+          const styled = require('styled-components').default;
+          const Title = styled.h1\`color: rebeccapurple;\`;
+          exports.default = () => React.createElement(Title, null, 'Styled');
+        `
+      });
+
+      expect(result.error).toBeUndefined();
+      const className = bodyOf(result.html)!.match(/<h1 class="([^"]+)"/)![1].split(' ').pop();
+      expect(headOf(result.html)).toMatch(new RegExp(`<style data-styled[^>]*>[^<]*\\.${className}\\{color:rebeccapurple;\\}`));
+    });
+
+    it('should move Emotion\'s styles from the body to the head', async () => {
+      const result = await renderer.render({
+        compiledCode: `
+          const { css, jsx } = require('@emotion/react');
+          exports.default = () => jsx('p', { css: css({ color: 'teal' }) }, 'Emotion');
+        `
+      });
+
+      expect(result.error).toBeUndefined();
+      const className = bodyOf(result.html)!.match(/<p class="([^"]+)"/)![1];
+      expect(headOf(result.html)).toMatch(new RegExp(`<style data-emotion="css [^"]+">\\.${className}\\{color:teal;\\}</style>`));
+      expect(bodyOf(result.html)).not.toContain('<style');
+    });
+  });
+});
@@ -49,6 +49,30 @@ describe('JSXCompiler', () => {
       expect(mockEsbuild.build).toHaveBeenCalled();
     });
 
+    it('should import only the project exports the snippet uses', async () => {
+      mockContext.projectFiles.push({
+        path: 'src/Card.tsx',
+        content: 'export const Card = () => <div />;',
+        type: 'tsx'
+      });
+
+      const mockEsbuild = require('esbuild');
+      mockEsbuild.build = jest.fn().mockResolvedValue({
+        outputFiles: [{ text: 'compiled code here' }],
+        warnings: []
+      });
+
+      await compiler.compileJSXSnippet({
+        code: 'const App = () => <Button>Click me</Button>; export default App;',
+        fileName: 'App.tsx'
+      });
+
+      const options = mockEsbuild.build.mock.calls[0][0];
+      expect(options.bundle).toBe(true);
+      expect(options.stdin.contents).toContain("import { Button } from './src/Button';");
+      expect(options.stdin.contents).not.toContain('Card');
+    });
+
     it('should handle compilation errors', async () => {
       const snippet: JSXSnippet = {
         code: 'const App = () => <InvalidComponent>; // Invalid JSX',
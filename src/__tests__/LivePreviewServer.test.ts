@@ -0,0 +1,132 @@
+import * as esbuild from 'esbuild';
+import * as vm from 'vm';
+import * as React from 'react';
+import * as ReactDOMServer from 'react-dom/server';
+import { JSDOM } from 'jsdom';
+import { createServer } from 'vite';
+import type { Plugin } from 'vite';
+import { LivePreviewServer } from '../preview/LivePreviewServer';
+import { ContextModules } from '../preview/ContextModules';
+import type { PreviewConfig } from '../types';
+
+// Vite's Node API loads its ES module build, which jest can't; the server's
+// own plugin and page are what's under test
+jest.mock('vite', () => ({ createServer: jest.fn() }));
+
+// React 18 has act, but its types don't declare it
+const { unstable_act: act } = React as unknown as { unstable_act: (callback: () => Promise<void>) => Promise<void> };
+
+describe('LivePreviewServer', () => {
+  const DECORATORS_MODULE_ID = 'virtual:part-render/decorators';
+  let plugin: Plugin;
+  let middlewares: Record<string, (req: any, res: any, next: () => void) => Promise<void>>;
+  let server: LivePreviewServer;
+
+  beforeEach(async () => {
+    middlewares = {};
+    const viteServer = {
+      middlewares: { use: (route: string, handler: any) => { middlewares[route] = handler; } },
+      transformIndexHtml: jest.fn(async (_url: string, html: string) => html),
+      listen: jest.fn(),
+      close: jest.fn()
+    };
+    (createServer as jest.Mock).mockImplementation(async (config: { plugins: Plugin[] }) => {
+      [plugin] = config.plugins;
+      (plugin.configureServer as (server: unknown) => void)(viteServer);
+      return viteServer;
+    });
+
+    server = new LivePreviewServer({ port: 0, host: 'localhost', projectRoot: __dirname, hmr: false });
+    await server.start(
+      [{ name: 'Label', filePath: 'src/Label.tsx', props: [], isDefaultExport: false, type: 'arrow', line: 1, column: 14 }],
+      { projectFiles: [], dependencies: {}, previewConfig: 'partrender.config.tsx' }
+    );
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  // Runs an ES module in the given context, with its imports taken from modules
+  const runModule = async (code: string, modules: Record<string, unknown>, context = vm.createContext({}), hot?: unknown) => {
+    const { code: commonJs } = await esbuild.transform(code, {
+      format: 'cjs',
+      define: { 'import.meta.hot': 'hot' },
+      logLevel: 'silent'
+    });
+    const module = { exports: {} as any };
+    vm.runInContext(`(function (module, exports, require, hot) {${commonJs}\n})`, context)(
+      module,
+      module.exports,
+      (specifier: string) => modules[specifier],
+      hot
+    );
+    return module.exports;
+  };
+
+  const loadDecoratorsModule = async () => {
+    const resolved = await (plugin.resolveId as (id: string) => unknown)(DECORATORS_MODULE_ID);
+    return (plugin.load as (id: string) => Promise<string>)(resolved as string);
+  };
+
+  it('should serve decorateComponent as a virtual module', async () => {
+    expect(await (plugin.resolveId as (id: string) => unknown)('/src/Label.tsx')).toBeUndefined();
+
+    const { decorateComponent } = await runModule(await loadDecoratorsModule(), {});
+    const Label = ({ text }: { text: string }) => React.createElement('span', null, text);
+    const config: PreviewConfig = { decorators: [Story => React.createElement('main', null, React.createElement(Story))] };
+
+    expect(ReactDOMServer.renderToStaticMarkup(React.createElement(decorateComponent(React, Label, config, 'Label'), { text: 'Hi' })))
+      .toBe('<main><span>Hi</span></main>');
+  });
+
+  it('should decorate the previewed component once, keeping the decorators mounted across updates', async () => {
+    let html = '';
+    await middlewares['/api/preview'](
+      { method: 'GET', url: `/?file=src%2FLabel.tsx&component=Label&props=${encodeURIComponent('{"text":"Hi"}')}`, headers: { host: 'localhost' } },
+      { setHeader: jest.fn(), end: (body: string) => { html = body; } },
+      jest.fn()
+    );
+    const script = html.match(/<script type="module">([\s\S]*?)<\/script>/)![1];
+
+    let providerMounts = 0;
+    const Provider = ({ children }: { children: React.ReactNode }) => {
+      React.useEffect(() => {
+        providerMounts++;
+      }, []);
+      return React.createElement('main', null, children);
+    };
+    const previewConfig: PreviewConfig = {
+      decorators: [Story => React.createElement(Provider, null, React.createElement(Story))]
+    };
+
+    const dom = new JSDOM('<!DOCTYPE html><div id="root"></div>', { runScripts: 'outside-only' });
+    dom.window.IS_REACT_ACT_ENVIRONMENT = true;
+    const context = dom.getInternalVMContext();
+    const accepted: Array<(updated: unknown) => void> = [];
+    const hot = { accept: (_dependency: string, callback: (updated: unknown) => void) => accepted.push(callback) };
+    const modules = {
+      'react': React,
+      'react-dom/client': new ContextModules(context, { react: React }).require('react-dom/client'),
+      '/src/Label.tsx': { Label: ({ text }: { text: string }) => React.createElement('span', null, text) },
+      '/partrender.config.tsx': { __esModule: true, default: previewConfig },
+      [DECORATORS_MODULE_ID]: await runModule(await loadDecoratorsModule(), {}, context)
+    };
+    const container = dom.window.document.getElementById('root')!;
+
+    try {
+      await act(async () => {
+        await runModule(script, modules, context, hot);
+      });
+      expect(container.innerHTML).toBe('<main><span>Hi</span></main>');
+
+      await act(async () => {
+        accepted.forEach(callback => callback({ Label: ({ text }: { text: string }) => React.createElement('b', null, text) }));
+      });
+      expect(container.innerHTML).toBe('<main><b>Hi</b></main>');
+      expect(providerMounts).toBe(1);
+    } finally {
+      dom.window.close();
+    }
+  });
+});
@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as React from 'react';
+import { SnippetTypeChecker } from '../core/SnippetTypeChecker';
+
+describe('MockPropsGenerator', () => {
+  let projectRoot: string;
+  let checker: SnippetTypeChecker;
+
+  beforeAll(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'part-render-mock-props-'));
+    fs.mkdirSync(path.join(projectRoot, 'src'));
+    fs.writeFileSync(path.join(projectRoot, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: {
+        jsx: 'react-jsx',
+        strict: true,
+        esModuleInterop: true,
+        skipLibCheck: true,
+        typeRoots: [path.join(__dirname, '../../node_modules/@types')],
+        types: ['react']
+      }
+    }));
+
+    checker = new SnippetTypeChecker(projectRoot);
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const snippet = `import type { ReactNode } from 'react';
+
+enum Size { Small = 'sm', Large = 'lg' }
+
+interface ProfileProps {
+  name: string;
+  email: string;
+  age: number;
+  variant: 'primary' | 'secondary';
+  size: Size;
+  tags: string[];
+  owner: { id: string; active: boolean };
+  onSelect: (id: string) => void;
+  children: ReactNode;
+  subtitle?: string;
+}
+
+export function Profile(props: ProfileProps) {
+  return <div>{props.name}</div>;
+}`;
+
+  const generate = (seed?: number) => checker.generateMockProps(snippet, { fileName: 'src/Profile.tsx', seed });
+
+  it('should generate a value of the right shape for every required prop', () => {
+    const props = generate();
+
+    expect(Object.keys(props).sort()).toEqual(['age', 'children', 'email', 'name', 'onSelect', 'owner', 'size', 'tags', 'variant']);
+    expect(props.name).toMatch(/^Name \w+$/);
+    expect(props.email).toMatch(/@example\.com$/);
+    expect(typeof props.age).toBe('number');
+    expect(['primary', 'secondary']).toContain(props.variant);
+    expect(['sm', 'lg']).toContain(props.size);
+    expect(props.tags).toEqual([expect.any(String), expect.any(String)]);
+    expect(props.owner).toEqual({ id: expect.any(String), active: expect.any(Boolean) });
+    expect(typeof props.onSelect).toBe('function');
+    expect(typeof props.children).toBe('string');
+  });
+
+  it('should give the same props for the same seed', () => {
+    const withoutFunctions = (props: Record<string, unknown>) => JSON.stringify(props);
+
+    expect(withoutFunctions(generate(7))).toBe(withoutFunctions(generate(7)));
+    expect(withoutFunctions(generate(7))).not.toBe(withoutFunctions(generate(8)));
+  });
+
+  it('should find the default export and render elements for element props', () => {
+    const props = checker.generateMockProps(
+      `const Layout = ({ header }: { header: JSX.Element }) => <main>{header}</main>;
+const Other = ({ count }: { count: number }) => <span>{count}</span>;
+export default Layout;`,
+      { fileName: 'src/Layout.tsx' }
+    );
+
+    expect(Object.keys(props)).toEqual(['header']);
+    expect(React.isValidElement(props.header)).toBe(true);
+  });
+
+  it('should return nothing for a snippet without a component', () => {
+    expect(checker.generateMockProps('export const answer = 42;', { fileName: 'src/answer.ts' })).toEqual({});
+  });
+});
@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ModuleBlockedError, ModuleLoader } from '../runtime/ModuleLoader';
+
+describe('ModuleLoader', () => {
+  const repoRoot = path.join(__dirname, '../..');
+  let projectRoot: string;
+
+  beforeAll(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'part-render-modules-'));
+    fs.writeFileSync(path.join(projectRoot, 'helper.js'), 'module.exports = { answer: 42 };');
+    fs.writeFileSync(path.join(projectRoot, 'fetch-mock.js'), 'module.exports = () => "mocked";');
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should load packages from the project', () => {
+    const loader = new ModuleLoader(repoRoot);
+
+    expect(loader.require('react')).toBe(require('react'));
+  });
+
+  it('should block builtins with access outside the sandbox', () => {
+    const loader = new ModuleLoader(repoRoot);
+
+    expect(() => loader.require('node:child_process')).toThrow(ModuleBlockedError);
+    expect(() => loader.require('fs/promises')).toThrow('Import of "fs/promises" was blocked by the sandbox');
+    expect(loader.require('path')).toBe(require('path'));
+  });
+
+  it('should only load allowed modules when an allowlist is set', () => {
+    const loader = new ModuleLoader(repoRoot, { allow: ['react', 'fs'] });
+
+    expect(loader.require('react/jsx-runtime')).toBeDefined();
+    expect(loader.require('fs')).toBe(require('fs'));
+    expect(() => loader.require('path')).toThrow('it is not in modules.allow (react, fs)');
+  });
+
+  it('should block denied modules even when allowed', () => {
+    const loader = new ModuleLoader(repoRoot, { allow: ['react*'], deny: ['react-dom'] });
+
+    expect(() => loader.require('react-dom/server')).toThrow('it matches modules.deny entry "react-dom"');
+  });
+
+  it('should resolve relative paths inside the project root only', () => {
+    const loader = new ModuleLoader(projectRoot);
+
+    expect(loader.require('./helper')).toEqual({ answer: 42 });
+    expect(() => loader.require('../outside')).toThrow(/outside the project root/);
+  });
+
+  it('should return mocks instead of loading modules', () => {
+    const loader = new ModuleLoader(projectRoot, {
+      mocks: { fs: { readFileSync: 'stub' }, axios: './fetch-mock.js' }
+    });
+
+    expect(loader.require('node:fs')).toEqual({ readFileSync: 'stub' });
+    expect((loader.require('axios') as () => string)()).toBe('mocked');
+  });
+});
@@ -0,0 +1,97 @@
+import { NetworkInterceptor } from '../runtime/NetworkInterceptor';
+
+describe('NetworkInterceptor', () => {
+  const createInterceptor = () => new NetworkInterceptor({
+    mocks: [
+      { method: 'GET', url: 'https://api.example.com/users/*', body: { name: 'Ada' } },
+      { method: 'POST', url: '/api/posts', status: 201, body: 'created', headers: { 'x-id': '7' } },
+      { url: /\/slow$/, delay: 50, body: 'late' }
+    ]
+  });
+
+  it('should answer fetch from the first matching mock', async () => {
+    const interceptor = createInterceptor();
+
+    const response = await interceptor.fetch('https://api.example.com/users/1?fields=name');
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    await expect(response.json()).resolves.toEqual({ name: 'Ada' });
+  });
+
+  it('should resolve relative URLs and record every request', async () => {
+    const interceptor = createInterceptor();
+
+    const response = await interceptor.fetch('/api/posts', {
+      method: 'post',
+      headers: { 'Content-Type': 'text/plain' },
+      body: 'hello'
+    });
+
+    expect(await response.text()).toBe('created');
+    expect(interceptor.requests).toEqual([expect.objectContaining({
+      method: 'POST',
+      url: 'http://localhost/api/posts',
+      headers: { 'content-type': 'text/plain' },
+      body: 'hello',
+      handledBy: 'mock',
+      status: 201
+    })]);
+  });
+
+  it('should fail requests no mock matches', async () => {
+    const interceptor = createInterceptor();
+
+    await expect(interceptor.fetch('https://api.example.com/users/1', { method: 'DELETE' }))
+      .rejects.toThrow('no network mock matches DELETE https://api.example.com/users/1');
+    expect(interceptor.requests[0].handledBy).toBe('blocked');
+  });
+
+  it('should answer with statuses that have no body', async () => {
+    const interceptor = new NetworkInterceptor({ mocks: [{ url: '/cached', status: 304, headers: { etag: '"v1"' } }] });
+
+    const response = await interceptor.fetch('/cached');
+
+    expect(response.status).toBe(304);
+    expect(response.statusText).toBe('Not Modified');
+    expect(response.headers.get('etag')).toBe('"v1"');
+    expect(await response.text()).toBe('');
+  });
+
+  it('should reject mock statuses a response can\'t have', () => {
+    expect(() => new NetworkInterceptor({ mocks: [{ url: '/upgrade', status: 101 }] }))
+      .toThrow('Network mock for any method /upgrade has status 101; mock statuses must be between 200 and 599');
+  });
+
+  it('should delay responses through the given timers', async () => {
+    const delays: number[] = [];
+    const interceptor = new NetworkInterceptor({
+      mocks: [{ url: '**', delay: 300 }],
+      setTimeout: (callback, ms) => {
+        delays.push(ms);
+        callback();
+      }
+    });
+
+    await interceptor.fetch('https://example.com/anything');
+
+    expect(delays).toEqual([300]);
+  });
+
+  it('should answer XMLHttpRequest from the same mocks', async () => {
+    const { XMLHttpRequest: MockXMLHttpRequest } = createInterceptor().createGlobals() as {
+      XMLHttpRequest: new () => any;
+    };
+    const xhr = new MockXMLHttpRequest();
+
+    const loaded = new Promise(resolve => xhr.addEventListener('load', resolve));
+    xhr.open('POST', '/api/posts');
+    xhr.send('{}');
+    await loaded;
+
+    expect(xhr.readyState).toBe(4);
+    expect(xhr.status).toBe(201);
+    expect(xhr.responseText).toBe('created');
+    expect(xhr.getResponseHeader('X-Id')).toBe('7');
+  });
+});
@@ -0,0 +1,88 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PathAliasResolver } from '../core/PathAliasResolver';
+import { CodeScanner } from '../core/CodeScanner';
+import { ProjectWatcher } from '../core/ProjectWatcher';
+import { ProjectFile } from '../types';
+
+describe('PathAliasResolver', () => {
+  const projectRoot = '/project';
+  const createResolver = () => new PathAliasResolver(projectRoot, {
+    baseUrl: '/project',
+    paths: {
+      '@/*': ['src/*'],
+      '@components/*': ['src/components/*']
+    }
+  });
+
+  const file = (path: string, content: string): ProjectFile => ({ path, content, type: 'tsx' });
+
+  describe('getImportSpecifier', () => {
+    it('should fall back to a relative path when the project uses no aliases', () => {
+      const resolver = createResolver();
+      resolver.collectAliasUsage([file('src/App.tsx', "import { Button } from './components/Button';")]);
+
+      expect(resolver.getImportSpecifier('src/components/Button.tsx', 'src/pages/Home.tsx'))
+        .toBe('../components/Button');
+      expect(resolver.getImportSpecifier('src/components/index.ts')).toBe('./src/components');
+    });
+
+    it('should prefer the alias form the project uses most', () => {
+      const resolver = createResolver();
+      resolver.collectAliasUsage([
+        file('src/App.tsx', "import { Button } from '@components/Button';\nimport { Card } from '@components/Card';"),
+        file('src/pages/Home.tsx', "import { api } from '@/lib/api';")
+      ]);
+
+      expect(resolver.getImportSpecifier('src/components/Button.tsx')).toBe('@components/Button');
+      expect(resolver.getImportSpecifier('src/lib/api.ts')).toBe('@/lib/api');
+    });
+  });
+
+  describe('isAlias', () => {
+    it('should tell path aliases from relative imports', () => {
+      const resolver = createResolver();
+
+      expect(resolver.isAlias('@/components/Button')).toBe(true);
+      expect(resolver.isAlias('./Button')).toBe(false);
+    });
+  });
+
+  describe('forProject', () => {
+    let root: string;
+
+    beforeAll(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'part-render-aliases-'));
+      fs.mkdirSync(path.join(root, 'src/ui'), { recursive: true });
+      fs.writeFileSync(path.join(root, 'src/ui/Button.ts'), 'export const Button = 1;');
+    });
+
+    afterAll(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    const writeAliases = (aliases: Record<string, string[]>) =>
+      fs.writeFileSync(path.join(root, 'tsconfig.json'), JSON.stringify({ compilerOptions: { baseUrl: '.', paths: aliases } }));
+
+    it('should read the tsconfig again after the watcher reports a change to it', async () => {
+      writeAliases({ '@ui/*': ['src/ui/*'] });
+      const fromFile = path.join(root, 'src/App.ts');
+      expect(PathAliasResolver.forProject(root).resolve('@ui/Button', fromFile)).toBe(path.join(root, 'src/ui/Button.ts'));
+
+      const watcher = new ProjectWatcher(new CodeScanner(root), { projectFiles: [], dependencies: {} }, { debounceMs: 10 });
+      watcher.start();
+      try {
+        const reported = new Promise(resolve => watcher.once('tsconfig', resolve));
+        writeAliases({ '~/*': ['src/*'] });
+        expect(await reported).toBe(path.join(root, 'tsconfig.json'));
+      } finally {
+        await watcher.close();
+      }
+
+      const resolver = PathAliasResolver.forProject(root);
+      expect(resolver.resolve('@ui/Button', fromFile)).toBeNull();
+      expect(resolver.resolve('~/ui/Button', fromFile)).toBe(path.join(root, 'src/ui/Button.ts'));
+    });
+  });
+});
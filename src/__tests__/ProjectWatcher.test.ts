@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CodeScanner } from '../core/CodeScanner';
+import { ProjectWatcher } from '../core/ProjectWatcher';
+import { CodeContext } from '../types';
+
+describe('ProjectWatcher', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'part-render-watcher-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const write = (relativePath: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, relativePath)), { recursive: true });
+    fs.writeFileSync(path.join(root, relativePath), content);
+  };
+
+  const watch = async (callback: (watcher: ProjectWatcher, context: CodeContext) => Promise<void>) => {
+    const scanner = new CodeScanner(root);
+    const context = await scanner.scanProject();
+    const watcher = new ProjectWatcher(scanner, context, { debounceMs: 10 });
+    watcher.start();
+    try {
+      await callback(watcher, context);
+    } finally {
+      await watcher.close();
+    }
+  };
+
+  const nextPackages = (watcher: ProjectWatcher) => new Promise<CodeContext>(resolve => watcher.once('packages', resolve));
+
+  it('should refresh the workspace packages when a package.json changes', async () => {
+    write('package.json', JSON.stringify({ workspaces: ['packages/*'] }));
+    write('packages/ui/package.json', JSON.stringify({ name: '@acme/ui' }));
+    write('packages/ui/src/Button.tsx', 'export const Button = () => <button />;');
+
+    await watch(async (watcher, context) => {
+      expect(context.workspaces?.map(workspace => workspace.name)).toEqual(['@acme/ui']);
+
+      let refreshed = nextPackages(watcher);
+      write('packages/api/src/client.ts', 'export const client = {};');
+      write('packages/api/package.json', JSON.stringify({ name: '@acme/api', dependencies: { zod: '^3.0.0' } }));
+      expect(await refreshed).toBe(context);
+      expect(context.workspaces).toEqual([
+        expect.objectContaining({
+          name: '@acme/api',
+          dependencies: { zod: '^3.0.0' },
+          projectFiles: [expect.objectContaining({ path: path.join('packages', 'api', 'src', 'client.ts') })]
+        }),
+        expect.objectContaining({ name: '@acme/ui' })
+      ]);
+
+      refreshed = nextPackages(watcher);
+      write('package.json', JSON.stringify({ workspaces: [] }));
+      await refreshed;
+      expect(context.workspaces).toBeUndefined();
+    });
+  });
+
+  it('should read a package\'s tsconfig again when it changes', async () => {
+    write('package.json', JSON.stringify({ workspaces: ['packages/*'] }));
+    write('packages/ui/package.json', JSON.stringify({ name: '@acme/ui' }));
+
+    await watch(async (watcher, context) => {
+      expect(context.workspaces?.[0].tsConfig).toBeNull();
+
+      const refreshed = nextPackages(watcher);
+      write('packages/ui/tsconfig.json', '{\n  "compilerOptions": {\n    // JSX\n    "jsx": "react-jsx",\n  },\n}');
+      await refreshed;
+      expect(context.workspaces?.[0].tsConfig).toEqual({ compilerOptions: { jsx: 'react-jsx' } });
+    });
+  });
+});
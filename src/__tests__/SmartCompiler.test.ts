@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SmartCompiler } from '../core/SmartCompiler';
+import { PREVIEW_CONFIG_EXPORT } from '../preview/Decorators';
+
+describe('SmartCompiler', () => {
+  let projectRoot: string;
+
+  beforeAll(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'part-render-assets-'));
+    fs.mkdirSync(path.join(projectRoot, 'src'));
+    fs.writeFileSync(path.join(projectRoot, 'src/global.css'), 'body { margin: 0 }');
+    fs.writeFileSync(path.join(projectRoot, 'src/Button.module.css'), '.primary { color: red; }');
+    fs.writeFileSync(path.join(projectRoot, 'src/logo.svg'), '<svg xmlns="http://www.w3.org/2000/svg"/>');
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const compile = (code: string, assets?: 'inline' | 'url') =>
+    new SmartCompiler(projectRoot, { projectFiles: [], dependencies: {} }, { enabled: false }).compile({
+      code,
+      filePath: path.join(projectRoot, 'src/Preview.tsx'),
+      wrapComponent: false,
+      assets
+    });
+
+  it('should bundle imported stylesheets and CSS modules in import order', async () => {
+    const result = await compile(
+      "import './global.css';\nimport styles from './Button.module.css';\nexport const className = styles.primary;"
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.css).toMatch(/margin: 0;[\s\S]*\.Button_primary \{\s*color: red;/);
+    expect(result.code).toContain('Button_primary');
+  });
+
+  it('should inline images as data URLs, or leave them to the preview server', async () => {
+    const code = "import logo from './logo.svg';\nexport const src = logo;";
+
+    expect((await compile(code)).code).toContain('data:image/svg+xml,');
+    expect((await compile(code, 'url')).code).toContain('"/src/logo.svg"');
+  });
+
+  it('should leave CSS-in-JS libraries for the renderer to provide', async () => {
+    const result = await compile(
+      "import styled from 'styled-components';\nimport { css } from '@emotion/react';\nexport const libraries = [styled, css];"
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.code).toContain('require("styled-components")');
+    expect(result.code).toContain('require("@emotion/react")');
+  });
+
+  it('should bundle the project\'s preview config with a wrapped component', async () => {
+    fs.writeFileSync(path.join(projectRoot, 'partrender.config.tsx'), 'export default { decorators: [] };');
+    const compiler = new SmartCompiler(
+      projectRoot,
+      { projectFiles: [], dependencies: {}, previewConfig: 'partrender.config.tsx' },
+      { enabled: false }
+    );
+
+    const result = await compiler.compile({ code: 'const Card = () => <div />;', filePath: path.join(projectRoot, 'src/Preview.tsx') });
+
+    expect(result.success).toBe(true);
+    expect(result.code).toContain(PREVIEW_CONFIG_EXPORT);
+    expect(result.code).toContain('partrender.config.tsx');
+  });
+
+  it('should ask for sass when a Sass file is imported without it', async () => {
+    fs.writeFileSync(path.join(projectRoot, 'src/theme.scss'), '$color: red; a { color: $color; }');
+
+    const result = await compile("import './theme.scss';");
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('install "sass" in the project');
+  });
+});
@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnippetTypeChecker } from '../core/SnippetTypeChecker';
+
+describe('SnippetTypeChecker', () => {
+  let projectRoot: string;
+  let checker: SnippetTypeChecker;
+
+  beforeAll(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'part-render-typecheck-'));
+    fs.mkdirSync(path.join(projectRoot, 'src'));
+    fs.writeFileSync(path.join(projectRoot, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: {
+        jsx: 'react-jsx',
+        strict: true,
+        esModuleInterop: true,
+        skipLibCheck: true,
+        typeRoots: [path.join(__dirname, '../../node_modules/@types')],
+        types: ['react']
+      }
+    }));
+    fs.writeFileSync(
+      path.join(projectRoot, 'src/Card.tsx'),
+      'export const Card = ({ title }: { title: string }) => <div>{title}</div>;'
+    );
+
+    checker = new SnippetTypeChecker(projectRoot);
+  });
+
+  afterAll(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  const codes = (code: string, lineCount?: number) =>
+    checker.check(code, { fileName: 'src/Preview.tsx', lineCount }).map(diagnostic => diagnostic.code);
+
+  it('should accept a snippet that matches the component props', () => {
+    expect(codes("import { Card } from './Card';\nconst a = <Card title=\"ok\" />;")).toEqual([]);
+  });
+
+  it('should report props mismatches and missing required props', () => {
+    const diagnostics = checker.check(
+      "import { Card } from './Card';\nconst a = <Card title={42} />;\nconst b = <Card />;",
+      { fileName: 'src/Preview.tsx' }
+    );
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ code: 'TS2322', phase: 'typecheck', file: 'src/Preview.tsx', range: expect.objectContaining({ start: { line: 2, column: 17 } }) }),
+      expect.objectContaining({ code: 'TS2741', range: expect.objectContaining({ start: { line: 3, column: 12 } }) })
+    ]);
+  });
+
+  it('should report unknown components', () => {
+    expect(codes('const a = <Missing />;')).toContain('TS2304');
+  });
+
+  it('should ignore diagnostics past the snippet lines', () => {
+    expect(codes("const a = 1;\nconst b: string = 2;", 1)).toEqual([]);
+  });
+});
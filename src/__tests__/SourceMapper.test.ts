@@ -0,0 +1,90 @@
+import * as esbuild from 'esbuild';
+import {
+  SourceMapper,
+  extractInlineSourceMap,
+  getLineOffset,
+  mapComponentStack,
+  mapRuntimeError,
+  withSourceURL
+} from '../utils/SourceMapper';
+
+describe('SourceMapper', () => {
+  const compile = (code: string) => esbuild.transformSync(code, {
+    loader: 'tsx',
+    format: 'cjs',
+    sourcemap: 'inline',
+    sourcefile: 'App.tsx'
+  }).code;
+
+  const runAndCatch = (code: string): unknown => {
+    try {
+      new Function(withSourceURL(code))();
+    } catch (error) {
+      return error;
+    }
+    throw new Error('Expected the code to throw');
+  };
+
+  it('should extract the inline source map', () => {
+    const sourceMap = extractInlineSourceMap(compile('const a: number = 1;'));
+
+    expect(JSON.parse(sourceMap!).sources).toEqual(['App.tsx']);
+  });
+
+  it('should map thrown errors back to the original line and source', () => {
+    const code = compile([
+      'type Props = { name: string };',
+      'const greet = (props: Props) => {',
+      '  return (props as any).missing.name;',
+      '};',
+      'greet({ name: "x" });'
+    ].join('\n'));
+
+    const error = runAndCatch(code);
+    // new Function puts its parameter list on the first two lines
+    const mapped = new SourceMapper(extractInlineSourceMap(code)!, 2).mapError(error);
+
+    expect(mapped.message).toContain('name');
+    expect(mapped.frames[0]).toMatchObject({
+      file: 'App.tsx',
+      line: 3,
+      functionName: 'greet',
+      snippet: 'return (props as any).missing.name;'
+    });
+    expect(mapped.stack).toContain('at greet (App.tsx:3:');
+  });
+
+  it('should fall back to the raw error without a source map', () => {
+    const mapped = mapRuntimeError(new Error('boom'), undefined);
+
+    expect(mapped.message).toBe('boom');
+    expect(mapped.frames).toEqual([]);
+  });
+
+  it('should map the snippet frames of a component stack', () => {
+    const code = compile([
+      'function Item() {',
+      '  return null;',
+      '}'
+    ].join('\n'));
+    const componentStack = [
+      '    at Item (part-render://snippet.js:1:1)',
+      '    at ul',
+      '    at Provider (/app/node_modules/lib/index.js:10:3)'
+    ].join('\n');
+
+    const mapped = mapComponentStack(componentStack, extractInlineSourceMap(code));
+
+    expect(mapped.stack.split('\n')).toEqual([
+      '    at Item (App.tsx:1:1)',
+      '    at ul',
+      '    at Provider (/app/node_modules/lib/index.js:10:3)'
+    ]);
+    expect(mapped.frames).toHaveLength(1);
+    expect(mapComponentStack(componentStack, undefined).stack).toBe(componentStack);
+  });
+
+  it('should count the lines a wrapper adds before the code', () => {
+    expect(getLineOffset('(function() {\n  try {\nCODE\n  } catch {}\n})', 'CODE')).toBe(2);
+  });
+});
@@ -0,0 +1,79 @@
+import * as React from 'react';
+import { renderToChunks } from '../preview/StreamingRenderer';
+import { flushMicrotasks } from '../runtime/SandboxTimers';
+import { VirtualClock } from '../runtime/VirtualClock';
+
+describe('renderToChunks', () => {
+  const createOptions = (clock: VirtualClock, timeout = 1000) => ({
+    timeout,
+    now: () => clock.getNow(),
+    wait: async (ms: number) => {
+      clock.tick(ms);
+      await flushMicrotasks();
+    }
+  });
+
+  // A component that suspends until the virtual clock reaches its delay
+  const createDelayed = (clock: VirtualClock, text: string, delay: number) => {
+    const { setTimeout: virtualSetTimeout } = clock.globals as { setTimeout: typeof setTimeout };
+    let ready = false;
+    let promise: Promise<void> | undefined;
+
+    return function Delayed() {
+      if (!ready) {
+        promise = promise || new Promise<void>(resolve => virtualSetTimeout(() => {
+          ready = true;
+          resolve();
+        }, delay));
+        throw promise;
+      }
+      return React.createElement('b', null, text);
+    };
+  };
+
+  const suspended = (fallback: string, child: React.ComponentType) =>
+    React.createElement(React.Suspense, { fallback: React.createElement('span', null, fallback) }, React.createElement(child));
+
+  it('should stream the shell with fallbacks first, then each resolved boundary', async () => {
+    const clock = new VirtualClock();
+    const element = React.createElement('div', null,
+      suspended('Loading user', createDelayed(clock, 'Ada', 200)),
+      suspended('Loading posts', createDelayed(clock, '3 posts', 100))
+    );
+
+    const result = await renderToChunks(element, createOptions(clock));
+
+    expect(result.timedOut).toBe(false);
+    expect(result.chunks[0]).toContain('Loading user');
+    expect(result.chunks[0]).toContain('Loading posts');
+    expect(result.chunks[0]).not.toContain('Ada');
+    const postsChunk = result.chunks.findIndex(chunk => chunk.includes('3 posts'));
+    const userChunk = result.chunks.findIndex(chunk => chunk.includes('Ada'));
+    expect(postsChunk).toBeGreaterThan(0);
+    expect(userChunk).toBeGreaterThan(postsChunk);
+  });
+
+  it('should abort boundaries still pending after the timeout', async () => {
+    const clock = new VirtualClock();
+    const element = suspended('Loading forever', createDelayed(clock, 'never', 60000));
+
+    const result = await renderToChunks(element, createOptions(clock, 500));
+
+    expect(result.timedOut).toBe(true);
+    expect(result.chunks.join('')).toContain('Loading forever');
+    expect(result.chunks.join('')).not.toContain('never');
+  });
+
+  it('should reject when rendering fails', async () => {
+    const clock = new VirtualClock();
+    const Broken = () => {
+      throw new Error('broken shell');
+    };
+    const BrokenInside = () => {
+      throw new Error('broken boundary');
+    };
+
+    await expect(renderToChunks(React.createElement(Broken), createOptions(clock))).rejects.toThrow('broken shell');
+    await expect(renderToChunks(suspended('...', BrokenInside), createOptions(clock))).rejects.toThrow('broken boundary');
+  });
+});
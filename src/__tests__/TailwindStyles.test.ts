@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { extractClassNames, TailwindStyles } from '../preview/TailwindStyles';
+
+describe('TailwindStyles', () => {
+  describe('extractClassNames', () => {
+    it('should collect each class name once, unescaping React\'s attribute escapes', () => {
+      const html = '<div class="p-4 flex"><p class="flex  [&amp;&gt;*]:mt-2 content-[&quot;x&quot;]">Hi</p>'
+        + '<span data-class="ignored" class="">!</span></div>';
+
+      expect(extractClassNames(html)).toEqual(['p-4', 'flex', '[&>*]:mt-2', 'content-["x"]']);
+    });
+  });
+
+  it('should generate the classes in the markup with the project\'s Tailwind 3 and PostCSS configs', async () => {
+    const styles = new TailwindStyles(path.join(__dirname, 'fixtures/tailwind3'), {
+      configPath: 'tailwind.config.js',
+      postcssConfigPath: 'postcss.config.mjs'
+    });
+
+    const css = await styles.generate('<div class="p-4 text-brand hover:underline"></div>');
+
+    expect(css).toMatch(/\.p-4 \{\s*padding: 1rem;?\s*\}/);
+    expect(css).toMatch(/\.text-brand \{[^}]*color: rgb\(18 52 86/);
+    expect(css).toContain('.hover\\:underline:hover');
+    expect(css).not.toContain('.m-4');
+    expect(css).toMatch(/\/\* processed by the project postcss config \*\/\s*$/);
+  });
+
+  it('should ask for tailwindcss when the project does not have it installed', async () => {
+    const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'part-render-no-tailwind-'));
+    const styles = new TailwindStyles(projectRoot, { configPath: 'tailwind.config.js' });
+
+    try {
+      await expect(styles.generate('<div class="p-4"></div>'))
+        .rejects.toThrow('Cannot generate Tailwind styles: install "tailwindcss" in the project');
+    } finally {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,57 @@
+import * as esbuild from 'esbuild';
+import { isTopLevelAwaitError, toAsyncCommonJS } from '../utils/TopLevelAwait';
+
+describe('TopLevelAwait', () => {
+  const bundle = (contents: string, format: esbuild.Format) => esbuild.buildSync({
+    stdin: { contents, loader: 'tsx', sourcefile: 'App.tsx' },
+    bundle: true,
+    write: false,
+    format,
+    platform: 'node',
+    external: ['react'],
+    sourcemap: 'inline',
+    supported: { 'top-level-await': format === 'esm' },
+    logLevel: 'silent'
+  }).outputFiles[0].text;
+
+  const run = async (code: string) => {
+    const module = { exports: {} as Record<string, unknown> };
+    const moduleFunction = new Function('exports', 'require', 'module', `return (async () => {\n${code}\n})();`);
+    await moduleFunction(module.exports, require, module);
+    return module.exports;
+  };
+
+  it('should recognize esbuild rejecting top-level await for CommonJS', () => {
+    let error: unknown;
+    try {
+      bundle('await Promise.resolve();', 'cjs');
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(isTopLevelAwaitError(error)).toBe(true);
+    expect(isTopLevelAwaitError(new Error('Top-level await'))).toBe(false);
+  });
+
+  it('should turn imports and exports of an ESM bundle into CommonJS', async () => {
+    const code = toAsyncCommonJS(bundle(
+      "import React, { createElement as h } from 'react';\n" +
+      "const value = await Promise.resolve(2);\n" +
+      "export const same = React.createElement === h;\n" +
+      "export default value;",
+      'esm'
+    ));
+
+    await expect(run(code)).resolves.toMatchObject({ same: true, default: 2 });
+  });
+
+  it('should keep every line of the bundle in place', () => {
+    const esm = bundle("import { useState } from 'react';\nawait null;\nexport const a = useState;", 'esm');
+    const converted = toAsyncCommonJS(esm);
+    const lineOf = (code: string, text: string) => code.split('\n').findIndex(line => line.includes(text));
+
+    expect(lineOf(converted, 'await null')).toBe(lineOf(esm, 'await null'));
+    expect(lineOf(converted, 'var a = useState')).toBe(lineOf(esm, 'var a = useState'));
+    expect(converted.split('\n').pop()).toMatch(/^\/\/# sourceMappingURL=data:/);
+  });
+});
@@ -0,0 +1,103 @@
+import { VirtualClock, DEFAULT_CLOCK_TIME, TimerLoopError } from '../runtime/VirtualClock';
+import { RealTimers } from '../runtime/SandboxTimers';
+
+type Globals = {
+  Date: DateConstructor;
+  Math: Math;
+  setTimeout: typeof setTimeout;
+  setInterval: typeof setInterval;
+};
+
+const globalsOf = (timers: VirtualClock | RealTimers) => timers.globals as unknown as Globals;
+
+describe('VirtualClock', () => {
+  it('should freeze Date at the configured time', () => {
+    const { Date: VirtualDate } = globalsOf(new VirtualClock({ now: '2020-02-02T10:00:00Z' }));
+
+    expect(VirtualDate.now()).toBe(Date.parse('2020-02-02T10:00:00Z'));
+    expect(new VirtualDate().toISOString()).toBe('2020-02-02T10:00:00.000Z');
+    expect(new VirtualDate(0).getTime()).toBe(0);
+    expect(new VirtualDate() instanceof VirtualDate).toBe(true);
+    expect(globalsOf(new VirtualClock()).Date.now()).toBe(DEFAULT_CLOCK_TIME);
+  });
+
+  it('should produce the same random numbers for the same seed', () => {
+    const sequence = (seed: number) => {
+      const { Math: seededMath } = globalsOf(new VirtualClock({ seed }));
+      return [seededMath.random(), seededMath.random(), seededMath.random()];
+    };
+
+    expect(sequence(7)).toEqual(sequence(7));
+    expect(sequence(7)).not.toEqual(sequence(8));
+    expect(globalsOf(new VirtualClock()).Math.max(1, 2)).toBe(2);
+  });
+
+  it('should only fire timers when the clock is advanced', () => {
+    const clock = new VirtualClock();
+    const { setTimeout: virtualSetTimeout, setInterval: virtualSetInterval, Date: VirtualDate } = globalsOf(clock);
+    const fired: string[] = [];
+
+    virtualSetTimeout(() => fired.push(`timeout@${VirtualDate.now() - DEFAULT_CLOCK_TIME}`), 250);
+    virtualSetInterval(() => fired.push(`interval@${VirtualDate.now() - DEFAULT_CLOCK_TIME}`), 100);
+    expect(fired).toEqual([]);
+
+    clock.tick(300);
+
+    expect(fired).toEqual(['interval@100', 'interval@200', 'timeout@250', 'interval@300']);
+    expect(clock.getNow() - DEFAULT_CLOCK_TIME).toBe(300);
+  });
+
+  it('should settle pending timeouts and promise chains in virtual time', async () => {
+    const clock = new VirtualClock();
+    const { setTimeout: virtualSetTimeout } = globalsOf(clock);
+    const fired: string[] = [];
+
+    virtualSetTimeout(() => {
+      Promise.resolve().then(() => virtualSetTimeout(() => fired.push('chained'), 500));
+    }, 400);
+    virtualSetTimeout(() => fired.push('too late'), 5000);
+
+    await expect(clock.settle(1000)).resolves.toBe(1);
+    expect(fired).toEqual(['chained']);
+  });
+
+  it('should give up on timers that keep scheduling new ones', async () => {
+    const clock = new VirtualClock({ loopLimit: 50 });
+    const { setTimeout: virtualSetTimeout, setInterval: virtualSetInterval } = globalsOf(clock);
+    const loop: jest.Mock = jest.fn(() => {
+      virtualSetTimeout(loop, 0);
+    });
+    loop();
+
+    expect(() => clock.tick(0)).toThrow(TimerLoopError);
+    expect(loop).toHaveBeenCalledTimes(51);
+
+    virtualSetInterval(() => undefined, 0);
+    await expect(clock.settle(1000)).resolves.toBe(0);
+    expect(() => clock.tick(1000)).toThrow('Aborted after running 50 timers');
+  });
+
+  it('should cancel everything on clearAll', () => {
+    const clock = new VirtualClock();
+    const fired = jest.fn();
+    globalsOf(clock).setInterval(fired, 10);
+
+    clock.clearAll();
+    clock.tick(100);
+
+    expect(fired).not.toHaveBeenCalled();
+  });
+});
+
+describe('RealTimers', () => {
+  it('should clear intervals the sandboxed code left running', async () => {
+    const timers = new RealTimers();
+    const fired = jest.fn();
+    globalsOf(timers).setInterval(fired, 5);
+
+    timers.clearAll();
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    expect(fired).not.toHaveBeenCalled();
+  });
+});
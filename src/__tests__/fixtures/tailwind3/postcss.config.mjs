@@ -0,0 +1,13 @@
+import tailwindcss from 'tailwindcss';
+
+// Marks the output, so tests can tell the project's plugins ran after Tailwind
+const markPreview = {
+  postcssPlugin: 'mark-preview',
+  OnceExit(root) {
+    root.append({ text: 'processed by the project postcss config' });
+  }
+};
+
+export default {
+  plugins: [tailwindcss, markPreview]
+};
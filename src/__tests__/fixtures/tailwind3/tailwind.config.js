@@ -0,0 +1,8 @@
+module.exports = {
+  corePlugins: { preflight: false },
+  theme: {
+    extend: {
+      colors: { brand: '#123456' }
+    }
+  }
+};
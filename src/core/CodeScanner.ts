@@ -1,64 +1,257 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { glob } from 'glob';
-import { ProjectFile, CodeContext } from '../types';
+import * as ts from 'typescript';
+import { FileFilter, IGNORE_FILE_NAMES } from './FileFilter';
+import { WorkspaceDiscovery } from './WorkspaceDiscovery';
+import { ExportIndex } from './ExportIndex';
+import { PathAliasResolver } from './PathAliasResolver';
+import { ProjectFile, CodeContext, FileChangeEvent, ScanOptions, TailwindSetup, WorkspacePackage } from '../types';
 import { logger } from '../utils/Logger';
 
+const PREVIEW_CONFIG_FILES = ['partrender.config.ts', 'partrender.config.tsx', 'partrender.config.js', 'partrender.config.jsx', 'partrender.config.mjs'];
+const TAILWIND_CONFIG_FILES = ['tailwind.config.js', 'tailwind.config.cjs', 'tailwind.config.mjs', 'tailwind.config.ts'];
+const POSTCSS_CONFIG_FILES = [
+  'postcss.config.js', 'postcss.config.cjs', 'postcss.config.mjs', 'postcss.config.ts',
+  '.postcssrc', '.postcssrc.json', '.postcssrc.js', '.postcssrc.cjs'
+];
+const PACKAGE_FILE_NAMES = ['package.json', 'pnpm-workspace.yaml'];
+
+/** The fields of a package.json the scanner reads */
+interface PackageJson extends Record<string, unknown> {
+  name?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+/** A tsconfig.json as written, without `extends` applied */
+interface TsConfigJson extends Record<string, unknown> {
+  compilerOptions?: Record<string, unknown>;
+}
+
 export class CodeScanner {
   private projectRoot: string;
+  private fileFilter: FileFilter;
 
-  constructor(projectRoot: string) {
+  constructor(projectRoot: string, options: ScanOptions = {}) {
     this.projectRoot = path.resolve(projectRoot);
+    this.fileFilter = new FileFilter(this.projectRoot, options);
+  }
+
+  getProjectRoot(): string {
+    return this.projectRoot;
   }
 
   async scanProject(): Promise<CodeContext> {
+    await this.fileFilter.loadIgnoreFiles();
     const projectFiles = await this.scanProjectFiles();
     const dependencies = await this.loadDependencies();
     const tsConfig = await this.loadTsConfig();
+    const workspaces = await this.loadWorkspaces(projectFiles);
+    const tailwind = await this.detectTailwind();
+    const previewConfig = await this.findConfigFile(PREVIEW_CONFIG_FILES);
 
     return {
       projectFiles,
       dependencies,
-      tsConfig
+      tsConfig,
+      ...(workspaces.length > 0 ? { workspaces } : {}),
+      ...(tailwind ? { tailwind } : {}),
+      ...(previewConfig ? { previewConfig } : {})
     };
   }
 
   private async scanProjectFiles(): Promise<ProjectFile[]> {
-    const patterns = [
-      '**/*.{ts,tsx,js,jsx}',
-      '!node_modules/**',
-      '!dist/**',
-      '!build/**',
-      '!coverage/**',
-      '!.git/**'
-    ];
-
     const files: ProjectFile[] = [];
-    
-    for (const pattern of patterns) {
-      const matchedFiles = await glob(pattern, {
-        cwd: this.projectRoot,
-        absolute: true
-      });
 
-      for (const filePath of matchedFiles) {
+    for (const filePath of await this.listSourceFiles()) {
+      const file = await this.readProjectFile(filePath);
+      if (file) {
+        files.push(file);
+      }
+    }
+
+    return files;
+  }
+
+  private async listSourceFiles(): Promise<string[]> {
+    return await glob(this.fileFilter.getIncludePatterns(), {
+      cwd: this.projectRoot,
+      absolute: true,
+      nodir: true,
+      ignore: {
+        ignored: (p) => this.fileFilter.isExcluded(p.relative()),
+        childrenIgnored: (p) => this.fileFilter.isExcluded(p.relative(), true)
+      }
+    });
+  }
+
+  /**
+   * Reads a single file into a ProjectFile, returning null when it cannot be read.
+   */
+  async readProjectFile(filePath: string): Promise<ProjectFile | null> {
+    const absolutePath = path.resolve(this.projectRoot, filePath);
+
+    try {
+      const stats = await fs.promises.stat(absolutePath);
+      if (!this.fileFilter.isWithinSizeLimit(stats.size)) {
+        logger.scanner.debug(`Skipping ${absolutePath}: ${stats.size} bytes exceeds the size limit`);
+        return null;
+      }
+
+      const content = await fs.promises.readFile(absolutePath, 'utf-8');
+
+      return {
+        path: path.relative(this.projectRoot, absolutePath),
+        content,
+        type: this.getFileType(absolutePath),
+        mtimeMs: stats.mtimeMs
+      };
+    } catch (error) {
+      logger.scanner.warn(`Failed to read file ${absolutePath}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Whether a path (absolute or relative to the project root) is a source file
+   * the scanner tracks.
+   */
+  isSourceFile(filePath: string): boolean {
+    const relativePath = this.toRelativePath(filePath);
+    return relativePath !== null && this.fileFilter.isIncluded(relativePath);
+  }
+
+  /**
+   * Whether a path lies outside the project root, or is excluded by the
+   * exclude globs or an ignore file.
+   */
+  isExcludedPath(filePath: string, isDirectory = false): boolean {
+    const relativePath = this.toRelativePath(filePath);
+    return relativePath === null || this.fileFilter.isExcluded(relativePath, isDirectory);
+  }
+
+  /**
+   * Whether a path is a .gitignore/.partrenderignore file, whose change
+   * requires reloadIgnoreFiles().
+   */
+  isIgnoreFile(filePath: string): boolean {
+    return IGNORE_FILE_NAMES.includes(path.basename(filePath));
+  }
+
+  async reloadIgnoreFiles(): Promise<void> {
+    await this.fileFilter.loadIgnoreFiles();
+  }
+
+  /**
+   * Whether a path is a package.json or pnpm-workspace.yaml, whose change
+   * requires refreshPackages().
+   */
+  isPackageFile(filePath: string): boolean {
+    return PACKAGE_FILE_NAMES.includes(path.basename(filePath));
+  }
+
+  /**
+   * Reads the dependencies, tsconfig and workspace packages again and
+   * updates the context in place. Package file lists are taken from
+   * context.projectFiles, so apply file changes first.
+   */
+  async refreshPackages(context: CodeContext): Promise<void> {
+    context.dependencies = await this.loadDependencies();
+    context.tsConfig = await this.loadTsConfig();
+
+    const workspaces = await this.loadWorkspaces(context.projectFiles);
+    if (workspaces.length > 0) {
+      context.workspaces = workspaces;
+    } else {
+      delete context.workspaces;
+    }
+  }
+
+  private toRelativePath(filePath: string): string | null {
+    const relativePath = path.relative(this.projectRoot, path.resolve(this.projectRoot, filePath));
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      return null;
+    }
+    return relativePath;
+  }
+
+  /**
+   * Brings an existing context up to date with the disk by re-reading only
+   * files whose mtime changed. Returns the deltas that were applied.
+   */
+  async refreshProject(context: CodeContext): Promise<FileChangeEvent[]> {
+    const known = new Map(context.projectFiles.map(file => [file.path, file]));
+    const events: FileChangeEvent[] = [];
+    const seen = new Set<string>();
+
+    for (const filePath of await this.listSourceFiles()) {
+      const relativePath = path.relative(this.projectRoot, filePath);
+      const existing = known.get(relativePath);
+      if (existing?.mtimeMs !== undefined) {
         try {
-          const content = await fs.promises.readFile(filePath, 'utf-8');
-          const relativePath = path.relative(this.projectRoot, filePath);
-          const fileType = this.getFileType(filePath);
-
-          files.push({
-            path: relativePath,
-            content,
-            type: fileType
-          });
-        } catch (error) {
-          logger.scanner.warn(`Failed to read file ${filePath}:`, error);
+          const stats = await fs.promises.stat(filePath);
+          if (stats.mtimeMs === existing.mtimeMs) {
+            seen.add(relativePath);
+            continue;
+          }
+        } catch {
+          continue;
         }
       }
+
+      const file = await this.readProjectFile(filePath);
+      if (!file) {
+        continue;
+      }
+
+      seen.add(relativePath);
+      if (file.content !== existing?.content) {
+        events.push({ type: existing ? 'change' : 'add', path: relativePath, file });
+      } else if (existing) {
+        existing.mtimeMs = file.mtimeMs;
+      }
     }
 
-    return files;
+    for (const relativePath of known.keys()) {
+      if (!seen.has(relativePath)) {
+        events.push({ type: 'unlink', path: relativePath });
+      }
+    }
+
+    this.applyChanges(context, events);
+    return events;
+  }
+
+  /**
+   * Applies add/change/unlink deltas to context.projectFiles in place, so every
+   * holder of the context sees the update.
+   */
+  applyChanges(context: CodeContext, events: FileChangeEvent[]): void {
+    for (const event of events) {
+      this.applyChange(context.projectFiles, event);
+
+      const workspace = this.findWorkspaceForFile(context, event.path);
+      if (workspace) {
+        this.applyChange(workspace.projectFiles, event);
+      }
+    }
+  }
+
+  private applyChange(projectFiles: ProjectFile[], event: FileChangeEvent): void {
+    const index = projectFiles.findIndex(file => file.path === event.path);
+
+    if (event.type === 'unlink') {
+      if (index !== -1) {
+        projectFiles.splice(index, 1);
+      }
+    } else if (event.file) {
+      if (index !== -1) {
+        projectFiles[index] = event.file;
+      } else {
+        projectFiles.push(event.file);
+      }
+    }
   }
 
   private async loadDependencies(): Promise<Record<string, string>> {
@@ -78,18 +271,122 @@ export class CodeScanner {
     }
   }
 
-  private async loadTsConfig(): Promise<any> {
+  private async loadTsConfig(): Promise<TsConfigJson | null> {
     try {
-      const tsConfigPath = path.join(this.projectRoot, 'tsconfig.json');
-      return JSON.parse(
-        await fs.promises.readFile(tsConfigPath, 'utf-8')
-      );
+      return await this.readTsConfigFile('tsconfig.json');
     } catch (error) {
       logger.scanner.warn('Could not load tsconfig.json:', error);
       return null;
     }
   }
 
+  /**
+   * A project uses Tailwind when it has a tailwind.config file, or a PostCSS
+   * config that loads tailwindcss (Tailwind 4, or 3 with the default config).
+   */
+  private async detectTailwind(): Promise<TailwindSetup | undefined> {
+    const configPath = await this.findConfigFile(TAILWIND_CONFIG_FILES);
+    const postcssConfigPath = await this.findConfigFile(POSTCSS_CONFIG_FILES, content => content.includes('tailwindcss'));
+
+    if (!configPath && !postcssConfigPath) {
+      return undefined;
+    }
+
+    logger.scanner.info(`🎨 Found Tailwind setup: ${[configPath, postcssConfigPath].filter(Boolean).join(', ')}`);
+    return {
+      ...(configPath ? { configPath } : {}),
+      ...(postcssConfigPath ? { postcssConfigPath } : {})
+    };
+  }
+
+  private async loadWorkspaces(projectFiles: ProjectFile[]): Promise<WorkspacePackage[]> {
+    const packageRoots = await new WorkspaceDiscovery(this.projectRoot).findPackageRoots();
+    const workspaces: WorkspacePackage[] = [];
+
+    for (const root of packageRoots) {
+      const packageJson = await this.readPackageJson(path.join(root, 'package.json'));
+      if (!packageJson?.name) {
+        logger.scanner.debug(`Skipping workspace package without a name: ${root}`);
+        continue;
+      }
+
+      workspaces.push({
+        name: packageJson.name,
+        root,
+        packageJson,
+        projectFiles: projectFiles.filter(file => this.isInPackage(file.path, root)),
+        dependencies: {
+          ...packageJson.dependencies || {},
+          ...packageJson.devDependencies || {}
+        },
+        tsConfig: await this.readTsConfigFile(path.join(root, 'tsconfig.json')).catch(() => null)
+      });
+    }
+
+    if (workspaces.length > 0) {
+      logger.scanner.info(`📦 Found ${workspaces.length} workspace packages`);
+    }
+
+    return workspaces;
+  }
+
+  private async findConfigFile(
+    candidates: string[],
+    matches: (content: string) => boolean = () => true
+  ): Promise<string | undefined> {
+    for (const file of candidates) {
+      const content = await this.readTextFile(file);
+      if (content !== undefined && matches(content)) {
+        return file;
+      }
+    }
+    return undefined;
+  }
+
+  private async readTextFile(relativePath: string): Promise<string | undefined> {
+    try {
+      return await fs.promises.readFile(path.join(this.projectRoot, relativePath), 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async readPackageJson(relativePath: string): Promise<PackageJson | null> {
+    try {
+      return JSON.parse(
+        await fs.promises.readFile(path.join(this.projectRoot, relativePath), 'utf-8')
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Parses a tsconfig the way tsc does, so comments and trailing commas
+   * (as in `tsc --init` output) are accepted.
+   */
+  private async readTsConfigFile(relativePath: string): Promise<TsConfigJson> {
+    const fileName = path.join(this.projectRoot, relativePath);
+    const { config, error } = ts.parseConfigFileTextToJson(fileName, await fs.promises.readFile(fileName, 'utf-8'));
+    if (error) {
+      throw new Error(ts.flattenDiagnosticMessageText(error.messageText, '\n'));
+    }
+    return config;
+  }
+
+  private isInPackage(filePath: string, packageRoot: string): boolean {
+    return filePath.startsWith(packageRoot + path.sep);
+  }
+
+  /**
+   * Returns the workspace package a file (relative to the project root) belongs to.
+   */
+  findWorkspaceForFile(context: CodeContext, filePath: string): WorkspacePackage | undefined {
+    return context.workspaces
+      ?.filter(workspace => this.isInPackage(filePath, workspace.root))
+      .sort((a, b) => b.root.length - a.root.length)[0];
+  }
+
   private getFileType(filePath: string): ProjectFile['type'] {
     const ext = path.extname(filePath).toLowerCase();
     switch (ext) {
@@ -108,35 +405,18 @@ export class CodeScanner {
   }
 
   findExports(files: ProjectFile[]): Record<string, string[]> {
+    const index = ExportIndex.forFiles(files, PathAliasResolver.forProject(this.projectRoot).moduleResolver);
     const exports: Record<string, string[]> = {};
 
-    for (const file of files) {
-      if (['ts', 'tsx', 'js', 'jsx'].includes(file.type)) {
-        const fileExports = this.extractExports(file.content);
-        if (fileExports.length > 0) {
-          exports[file.path] = fileExports;
-        }
+    for (const filePath of index.getFiles()) {
+      const names = index.getExports(filePath).map(entry =>
+        entry.kind === 'default' ? entry.localName : entry.name
+      );
+      if (names.length > 0) {
+        exports[filePath] = Array.from(new Set(names));
       }
     }
 
     return exports;
   }
-
-  private extractExports(content: string): string[] {
-    const exports: string[] = [];
-    const exportRegex = /export\s+(?:default\s+)?(?:const|let|var|function|class|interface|type)\s+([a-zA-Z_$][a-zA-Z0-9_$]*)/g;
-    
-    let match;
-    while ((match = exportRegex.exec(content)) !== null) {
-      exports.push(match[1]);
-    }
-
-    const namedExportRegex = /export\s*{\s*([^}]+)\s*}/g;
-    while ((match = namedExportRegex.exec(content)) !== null) {
-      const namedExports = match[1].split(',').map(exp => exp.trim().split(/\s+as\s+/)[0]);
-      exports.push(...namedExports);
-    }
-
-    return exports;
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,272 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { CacheOptions, CacheStats, Diagnostic } from '../types';
+import { logger } from '../utils/Logger';
+
+export const DEFAULT_CACHE_DIRECTORY = path.join('.part-render', 'cache');
+const DEFAULT_MAX_ENTRIES = 100;
+
+export interface CachedCompilation {
+  code: string;
+  css?: string;
+  warnings?: string[];
+  diagnostics?: Diagnostic[];
+  topLevelAwait?: boolean;
+}
+
+/**
+ * Returns the in-memory content of a file (e.g. from the CodeContext), or
+ * undefined to read it from disk.
+ */
+export type ContentReader = (absolutePath: string) => string | undefined;
+
+interface CacheEntry extends CachedCompilation {
+  key: string;
+  // Content hash of every file the bundle was built from, by absolute path
+  inputs: Record<string, string>;
+}
+
+/**
+ * Caches compiled output by a key built from the snippet and the compiler
+ * options. An entry is only served while every file of its dependency graph
+ * still hashes to what it was built from, so edits invalidate it automatically.
+ */
+export class CompilationCache {
+  private static shared = new Map<string, CompilationCache>();
+
+  private projectRoot: string;
+  private maxEntries: number;
+  private directory: string | null;
+  private entries = new Map<string, CacheEntry>();
+  private fileHashes = new Map<string, { stamp: string; hash: string }>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(projectRoot: string, options: CacheOptions = {}) {
+    this.projectRoot = path.resolve(projectRoot);
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_MAX_ENTRIES);
+    this.directory = options.persist
+      ? path.resolve(this.projectRoot, options.directory || DEFAULT_CACHE_DIRECTORY)
+      : null;
+  }
+
+  /**
+   * Shared cache per project root and options, so results survive across
+   * compiler instances. Returns null when caching is disabled.
+   */
+  static forProject(projectRoot: string, options: CacheOptions = {}): CompilationCache | null {
+    if (options.enabled === false) {
+      return null;
+    }
+
+    const id = `${path.resolve(projectRoot)}:${JSON.stringify(options)}`;
+    let cache = CompilationCache.shared.get(id);
+    if (!cache) {
+      cache = new CompilationCache(projectRoot, options);
+      CompilationCache.shared.set(id, cache);
+    }
+    return cache;
+  }
+
+  static createKey(...parts: unknown[]): string {
+    return hash(JSON.stringify(parts));
+  }
+
+  async get(key: string, readContent?: ContentReader): Promise<CachedCompilation | null> {
+    let entry = this.entries.get(key) || await this.readFromDisk(key);
+
+    if (entry && !this.isFresh(entry, readContent)) {
+      logger.compiler.debug(`Cache entry ${key.slice(0, 8)} is stale`);
+      this.delete(key);
+      entry = null;
+    }
+
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    // Re-insert to mark as most recently used, on disk too
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    await this.touch(key);
+    this.hits++;
+    return {
+      code: entry.code,
+      css: entry.css,
+      warnings: entry.warnings,
+      diagnostics: entry.diagnostics,
+      topLevelAwait: entry.topLevelAwait
+    };
+  }
+
+  /**
+   * Stores a result together with the hashes of the files it was built from
+   * (absolute paths, e.g. the inputs of an esbuild metafile).
+   */
+  async set(
+    key: string,
+    compilation: CachedCompilation,
+    inputFiles: string[],
+    readContent?: ContentReader
+  ): Promise<void> {
+    const inputs: Record<string, string> = {};
+    for (const file of inputFiles) {
+      const fileHash = this.hashFile(file, readContent);
+      if (fileHash === null) {
+        // Can't validate this entry later, so don't keep it
+        return;
+      }
+      inputs[file] = fileHash;
+    }
+
+    const entry: CacheEntry = { key, ...compilation, inputs };
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.evict();
+    await this.writeToDisk(entry);
+  }
+
+  getStats(key: string, hit: boolean): CacheStats {
+    return {
+      hit,
+      key,
+      hits: this.hits,
+      misses: this.misses,
+      size: this.entries.size
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.fileHashes.clear();
+    this.hits = 0;
+    this.misses = 0;
+
+    if (this.directory) {
+      await fs.promises.rm(this.directory, { recursive: true, force: true });
+    }
+  }
+
+  private isFresh(entry: CacheEntry, readContent?: ContentReader): boolean {
+    return Object.entries(entry.inputs).every(([file, fileHash]) =>
+      this.hashFile(file, readContent) === fileHash
+    );
+  }
+
+  private hashFile(file: string, readContent?: ContentReader): string | null {
+    const content = readContent?.(file);
+    if (content !== undefined) {
+      return hash(content);
+    }
+
+    try {
+      // Files outside the context (node_modules) are only re-hashed when they're touched
+      const stat = fs.statSync(file);
+      const stamp = `${stat.mtimeMs}:${stat.size}`;
+      const known = this.fileHashes.get(file);
+      if (known?.stamp === stamp) {
+        return known.hash;
+      }
+
+      const fileHash = hash(fs.readFileSync(file, 'utf-8'));
+      this.fileHashes.set(file, { stamp, hash: fileHash });
+      return fileHash;
+    } catch {
+      return null;
+    }
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private async touch(key: string): Promise<void> {
+    if (this.directory) {
+      const now = new Date();
+      await fs.promises.utimes(this.getEntryPath(key), now, now).catch(() => undefined);
+    }
+  }
+
+  private delete(key: string): void {
+    this.entries.delete(key);
+    if (this.directory) {
+      fs.promises.rm(this.getEntryPath(key), { force: true }).catch(() => undefined);
+    }
+  }
+
+  private async readFromDisk(key: string): Promise<CacheEntry | null> {
+    if (!this.directory) {
+      return null;
+    }
+
+    try {
+      const entry = JSON.parse(await fs.promises.readFile(this.getEntryPath(key), 'utf-8'));
+      return entry?.key === key ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeToDisk(entry: CacheEntry): Promise<void> {
+    if (!this.directory) {
+      return;
+    }
+
+    try {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      await fs.promises.writeFile(this.getEntryPath(entry.key), JSON.stringify(entry));
+      await this.pruneDisk();
+    } catch (error) {
+      logger.compiler.warn('Could not write compilation cache entry:', error);
+    }
+  }
+
+  /**
+   * Keeps the maxEntries most recently used files. Every edit produces new
+   * keys, so without this the directory would grow for as long as it's used.
+   */
+  private async pruneDisk(): Promise<void> {
+    const names = (await fs.promises.readdir(this.directory!)).filter(name => name.endsWith('.json'));
+    if (names.length <= this.maxEntries) {
+      return;
+    }
+
+    const files = await Promise.all(names.map(async name => {
+      const filePath = path.join(this.directory!, name);
+      const stat = await fs.promises.stat(filePath).catch(() => null);
+      return { filePath, usedAt: stat?.mtimeMs ?? 0 };
+    }));
+    files.sort((a, b) => a.usedAt - b.usedAt);
+
+    await Promise.all(files.slice(0, files.length - this.maxEntries)
+      .map(file => fs.promises.rm(file.filePath, { force: true })));
+  }
+
+  private getEntryPath(key: string): string {
+    return path.join(this.directory!, `${key}.json`);
+  }
+}
+
+function hash(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Absolute paths of the files an esbuild bundle was built from, skipping
+ * stdin (listed under its `sourcefile` name when one is given) and virtual
+ * modules.
+ */
+export function getBundleInputs(
+  metafile: { inputs: Record<string, unknown> },
+  workingDir: string,
+  stdinName = '<stdin>'
+): string[] {
+  return Object.keys(metafile.inputs)
+    .filter(input => input !== stdinName && !/^[\w-]+:/.test(input))
+    .map(input => path.resolve(workingDir, input));
+}
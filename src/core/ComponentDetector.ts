@@ -1,6 +1,8 @@
 import * as ts from 'typescript';
 import * as fs from 'fs';
-import { ProjectFile } from '../types';
+import * as path from 'path';
+import { ProjectFile, FileChangeEvent, MockPropsOptions } from '../types';
+import { getComponentPropsType, MockPropsGenerator } from './MockPropsGenerator';
 
 export interface ComponentInfo {
   name: string;
@@ -21,10 +23,16 @@ export interface PropInfo {
 }
 
 export class ComponentDetector {
+  private projectRoot: string;
+  private compilerOptions: ts.CompilerOptions;
+  private rootFiles: Set<string>;
   private program: ts.Program;
   private checker: ts.TypeChecker;
 
   constructor(projectRoot: string, tsConfigPath?: string) {
+    projectRoot = path.resolve(projectRoot);
+    this.projectRoot = projectRoot;
+
     const configPath = tsConfigPath || ts.findConfigFile(
       projectRoot,
       ts.sys.fileExists,
@@ -50,9 +58,66 @@ export class ComponentDetector {
       compilerOptions = parsedConfig.options;
     }
 
-    const rootFiles = this.findSourceFiles(projectRoot);
-    this.program = ts.createProgram(rootFiles, compilerOptions);
+    this.compilerOptions = compilerOptions;
+    this.rootFiles = new Set(this.findSourceFiles(projectRoot));
+    this.program = ts.createProgram(Array.from(this.rootFiles), compilerOptions);
+    this.checker = this.program.getTypeChecker();
+  }
+
+  /**
+   * The project's program, kept current by updateFiles. Shared with
+   * SnippetTypeChecker so snippets are checked without re-parsing the project.
+   */
+  getProgram(): ts.Program {
+    return this.program;
+  }
+
+  /**
+   * Rebuilds the program for a set of file deltas, reusing unchanged source
+   * files from the previous program, and re-runs detection only for the
+   * added/changed files. Callers should drop components of every event path
+   * and merge in the returned ones.
+   */
+  updateFiles(events: FileChangeEvent[]): ComponentInfo[] {
+    const changedPaths = new Set<string>();
+
+    for (const event of events) {
+      const absolutePath = path.resolve(this.projectRoot, event.path);
+      changedPaths.add(absolutePath);
+      if (event.type === 'unlink') {
+        this.rootFiles.delete(absolutePath);
+      } else {
+        this.rootFiles.add(absolutePath);
+      }
+    }
+
+    // Hand back the already-parsed source files of everything that didn't change
+    const oldProgram = this.program;
+    const host = ts.createCompilerHost(this.compilerOptions);
+    const getSourceFile = host.getSourceFile;
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreateNewSourceFile) => {
+      if (!changedPaths.has(path.resolve(fileName))) {
+        const existing = oldProgram.getSourceFile(fileName);
+        if (existing) {
+          return existing;
+        }
+      }
+      return getSourceFile.call(host, fileName, languageVersion, onError, shouldCreateNewSourceFile);
+    };
+
+    this.program = ts.createProgram({
+      rootNames: Array.from(this.rootFiles),
+      options: this.compilerOptions,
+      host,
+      oldProgram
+    });
     this.checker = this.program.getTypeChecker();
+
+    const changedFiles = events
+      .filter(event => event.type !== 'unlink' && event.file)
+      .map(event => event.file!);
+
+    return this.detectComponents(changedFiles);
   }
 
   detectComponents(files: ProjectFile[]): ComponentInfo[] {
@@ -63,7 +128,7 @@ export class ComponentDetector {
         continue;
       }
 
-      const sourceFile = this.program.getSourceFile(file.path);
+      const sourceFile = this.program.getSourceFile(path.resolve(this.projectRoot, file.path));
       if (!sourceFile) {
         continue;
       }
@@ -75,6 +140,33 @@ export class ComponentDetector {
     return components;
   }
 
+  /**
+   * Props a detected component can be rendered with, generated from its
+   * props type: a deterministic value for each required prop.
+   */
+  generateMockProps(component: ComponentInfo, options: MockPropsOptions = {}): Record<string, unknown> {
+    const sourceFile = this.program.getSourceFile(path.resolve(this.projectRoot, component.filePath));
+    const declaration = sourceFile && this.findDeclaration(sourceFile, component);
+    const propsType = declaration && getComponentPropsType(this.checker, declaration);
+
+    return propsType ? new MockPropsGenerator(this.checker, options).generateProps(propsType) : {};
+  }
+
+  private findDeclaration(sourceFile: ts.SourceFile, component: ComponentInfo): ts.Node | undefined {
+    const find = (node: ts.Node): ts.Node | undefined => {
+      const isDeclaration = ts.isFunctionDeclaration(node) || ts.isVariableDeclaration(node) || ts.isClassDeclaration(node);
+      if (isDeclaration && node.name?.getText(sourceFile) === component.name) {
+        const position = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+        if (position.line + 1 === component.line && position.character + 1 === component.column) {
+          return node;
+        }
+      }
+      return ts.forEachChild(node, find);
+    };
+
+    return find(sourceFile);
+  }
+
   private extractComponentsFromFile(sourceFile: ts.SourceFile, filePath: string): ComponentInfo[] {
     const components: ComponentInfo[] = [];
 
@@ -282,7 +374,11 @@ export class ComponentDetector {
   }
 
   private isExported(node: ts.Node): boolean {
-    return node.modifiers?.some(mod => mod.kind === ts.SyntaxKind.ExportKeyword) || false;
+    return this.getModifiers(node).some(mod => mod.kind === ts.SyntaxKind.ExportKeyword);
+  }
+
+  private getModifiers(node: ts.Node): readonly ts.Modifier[] {
+    return (ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined) || [];
   }
 
   private isDefaultExport(node: ts.Node, sourceFile: ts.SourceFile): boolean {
@@ -304,10 +400,9 @@ export class ComponentDetector {
       }
     }
 
-    return node.modifiers?.some(mod => 
-      mod.kind === ts.SyntaxKind.ExportKeyword && 
-      mod.getText().includes('default')
-    ) || false;
+    const modifiers = this.getModifiers(node);
+    return modifiers.some(mod => mod.kind === ts.SyntaxKind.ExportKeyword) &&
+      modifiers.some(mod => mod.kind === ts.SyntaxKind.DefaultKeyword);
   }
 
   private getJSDocComment(symbol: ts.Symbol): string | undefined {
@@ -2,6 +2,12 @@ import * as ts from 'typescript';
 import * as path from 'path';
 import * as fs from 'fs';
 import { logger } from '../utils/Logger';
+import { ExportIndex, ExportEntry } from './ExportIndex';
+import { PathAliasResolver } from './PathAliasResolver';
+import { ProjectFile, WorkspacePackage } from '../types';
+
+const SOURCE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+const BUILD_OUTPUT_DIRS = ['dist', 'build', 'lib', 'out', 'esm', 'cjs'];
 
 export interface ImportInfo {
   module: string;
@@ -10,6 +16,7 @@ export interface ImportInfo {
     alias?: string;
     isDefault?: boolean;
     isNamespace?: boolean;
+    isTypeOnly?: boolean;
   }[];
   isRelative: boolean;
   resolvedPath?: string;
@@ -24,31 +31,37 @@ export interface DependencyContext {
 
 export class DependencyResolver {
   private projectRoot: string;
-  private tsProgram?: ts.Program;
   private moduleResolutionCache = new Map<string, string>();
+  private workspaces: WorkspacePackage[] = [];
+  private workspaceCompilerOptions = new Map<string, ts.CompilerOptions | null>();
+  private aliasResolver?: PathAliasResolver;
 
   constructor(projectRoot: string) {
     this.projectRoot = projectRoot;
-    this.initializeTsProgram();
   }
 
-  private initializeTsProgram(): void {
-    const configPath = ts.findConfigFile(
-      this.projectRoot,
-      ts.sys.fileExists,
-      'tsconfig.json'
-    );
-
-    if (configPath) {
-      const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
-      const { options, fileNames } = ts.parseJsonConfigFileContent(
-        config,
-        ts.sys,
-        path.dirname(configPath)
-      );
-
-      this.tsProgram = ts.createProgram(fileNames, options);
+  /**
+   * The project's shared resolver. A different one than last time means the
+   * tsconfig changed, so earlier resolutions are dropped.
+   */
+  getAliasResolver(): PathAliasResolver {
+    const resolver = PathAliasResolver.forProject(this.projectRoot);
+    if (resolver !== this.aliasResolver) {
+      this.aliasResolver = resolver;
+      this.moduleResolutionCache.clear();
+      this.workspaceCompilerOptions.clear();
     }
+    return resolver;
+  }
+
+  /**
+   * Registers the packages of a monorepo so imports of sibling packages
+   * resolve to their source instead of their build output.
+   */
+  setWorkspaces(workspaces: WorkspacePackage[] = []): void {
+    this.workspaces = workspaces;
+    this.moduleResolutionCache.clear();
+    this.workspaceCompilerOptions.clear();
   }
 
   async analyzeDependencies(
@@ -70,8 +83,11 @@ export class DependencyResolver {
     // 分析imports
     this.extractImports(sourceFile, imports);
 
-    // 分析使用的标识符
+    // 分析使用的标识符，import进来的名字也算已声明
     this.extractIdentifiers(sourceFile, usedIdentifiers, declaredIdentifiers);
+    for (const imp of imports) {
+      imp.specifiers.forEach(spec => declaredIdentifiers.add(spec.alias || spec.name));
+    }
 
     // 找出缺失的标识符
     const missingIdentifiers = new Set<string>();
@@ -154,16 +170,18 @@ export class DependencyResolver {
   ): void {
     const visit = (node: ts.Node) => {
       // 记录声明的标识符
-      if (ts.isVariableDeclaration(node) && node.name && ts.isIdentifier(node.name)) {
-        declared.add(node.name.text);
-      } else if (ts.isFunctionDeclaration(node) && node.name) {
-        declared.add(node.name.text);
-      } else if (ts.isClassDeclaration(node) && node.name) {
+      if (ts.isVariableDeclaration(node) || ts.isParameter(node) || ts.isBindingElement(node)) {
+        if (ts.isIdentifier(node.name)) {
+          declared.add(node.name.text);
+        }
+      } else if ((ts.isFunctionDeclaration(node) || ts.isClassDeclaration(node) ||
+                  ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node) ||
+                  ts.isEnumDeclaration(node)) && node.name) {
         declared.add(node.name.text);
       }
 
-      // 记录使用的标识符
-      if (ts.isIdentifier(node) && !ts.isPropertyAccessExpression(node.parent)) {
+      // 记录使用的标识符，跳过属性名和JSX原生标签
+      if (ts.isIdentifier(node) && !this.isPropertyName(node)) {
         used.add(node.text);
       }
 
@@ -173,6 +191,25 @@ export class DependencyResolver {
     visit(sourceFile);
   }
 
+  private isPropertyName(node: ts.Identifier): boolean {
+    const parent = node.parent;
+    if ((ts.isPropertyAccessExpression(parent) || ts.isPropertyAssignment(parent) ||
+         ts.isPropertySignature(parent) || ts.isPropertyDeclaration(parent) ||
+         ts.isMethodDeclaration(parent) || ts.isJsxAttribute(parent) ||
+         ts.isImportSpecifier(parent) || ts.isExportSpecifier(parent)) &&
+        parent.name === node) {
+      return true;
+    }
+    if (ts.isBindingElement(parent) && parent.propertyName === node) {
+      return true;
+    }
+    if ((ts.isJsxOpeningElement(parent) || ts.isJsxSelfClosingElement(parent) || ts.isJsxClosingElement(parent)) &&
+        parent.tagName === node) {
+      return /^[a-z]/.test(node.text);
+    }
+    return false;
+  }
+
   private isBuiltinIdentifier(id: string): boolean {
     const builtins = new Set([
       'console', 'window', 'document', 'process', 'global',
@@ -187,31 +224,36 @@ export class DependencyResolver {
     moduleName: string,
     fromFile?: string
   ): Promise<string | null> {
+    // 先取解析器：tsconfig变化后缓存会被清空
+    const aliasResolver = this.getAliasResolver();
     const cacheKey = `${moduleName}:${fromFile || 'root'}`;
     if (this.moduleResolutionCache.has(cacheKey)) {
       return this.moduleResolutionCache.get(cacheKey) || null;
     }
 
     try {
-      // 尝试使用TypeScript的模块解析
-      if (this.tsProgram) {
-        const result = ts.resolveModuleName(
-          moduleName,
-          fromFile || path.join(this.projectRoot, 'index.ts'),
-          this.tsProgram.getCompilerOptions(),
-          ts.sys
-        );
-
-        if (result.resolvedModule) {
-          const resolvedPath = result.resolvedModule.resolvedFileName;
-          this.moduleResolutionCache.set(cacheKey, resolvedPath);
-          return resolvedPath;
-        }
+      // 工作区内的包解析到源码
+      const workspaceResolved = this.resolveWorkspaceImport(moduleName);
+      if (workspaceResolved) {
+        this.moduleResolutionCache.set(cacheKey, workspaceResolved);
+        return workspaceResolved;
+      }
+
+      // 使用tsconfig的paths/baseUrl/rootDirs解析项目内的模块
+      const containingFile = path.resolve(this.projectRoot, fromFile || 'index.ts');
+      const aliasResolved = aliasResolver.resolve(
+        moduleName,
+        containingFile,
+        this.getCompilerOptionsFor(fromFile)
+      );
+      if (aliasResolved) {
+        this.moduleResolutionCache.set(cacheKey, aliasResolved);
+        return aliasResolved;
       }
 
       // 回退到Node.js解析
       const resolved = require.resolve(moduleName, {
-        paths: [fromFile ? path.dirname(fromFile) : this.projectRoot]
+        paths: [path.dirname(containingFile)]
       });
       this.moduleResolutionCache.set(cacheKey, resolved);
       return resolved;
@@ -221,30 +263,174 @@ export class DependencyResolver {
     }
   }
 
+  /**
+   * Resolves `@acme/ui` or `@acme/ui/Button` to a source file of the matching
+   * workspace package, or null when no workspace package matches.
+   */
+  resolveWorkspaceImport(moduleName: string): string | null {
+    const workspace = this.workspaces.find(pkg =>
+      moduleName === pkg.name || moduleName.startsWith(`${pkg.name}/`)
+    );
+    if (!workspace) {
+      return null;
+    }
+
+    const packageRoot = path.resolve(this.projectRoot, workspace.root);
+    const subpath = moduleName.slice(workspace.name.length + 1);
+
+    const candidates = subpath
+      ? this.getSubpathCandidates(workspace, subpath)
+      : this.getEntryCandidates(workspace);
+
+    for (const candidate of candidates) {
+      const resolved = this.resolveSourceFile(path.resolve(packageRoot, candidate));
+      if (resolved) {
+        return resolved;
+      }
+    }
+
+    logger.scanner.debug(`No source entry found for workspace import ${moduleName}`);
+    return null;
+  }
+
+  private getEntryCandidates(workspace: WorkspacePackage): string[] {
+    const pkg = workspace.packageJson;
+    const rootExport = typeof pkg.exports === 'string' ? pkg.exports : pkg.exports?.['.'];
+    const declared = [
+      pkg.source,
+      typeof rootExport === 'string' ? rootExport : rootExport?.source,
+      typeof rootExport === 'string' ? undefined : rootExport?.import,
+      typeof rootExport === 'string' ? undefined : rootExport?.default,
+      pkg.module,
+      pkg.main,
+      pkg.types || pkg.typings
+    ].filter((entry): entry is string => typeof entry === 'string');
+
+    return [
+      ...declared.flatMap(entry => [this.toSourcePath(entry), entry]),
+      'src/index',
+      'index'
+    ];
+  }
+
+  private getSubpathCandidates(workspace: WorkspacePackage, subpath: string): string[] {
+    const exported = workspace.packageJson.exports?.[`./${subpath}`];
+    const declared = typeof exported === 'string'
+      ? exported
+      : exported?.source || exported?.import || exported?.default;
+
+    return [
+      ...(typeof declared === 'string' ? [this.toSourcePath(declared), declared] : []),
+      `src/${subpath}`,
+      subpath
+    ];
+  }
+
+  /**
+   * Maps a build output path to where its source most likely lives:
+   * `./dist/index.js` → `src/index`, `lib/esm/Button.d.ts` → `src/Button`.
+   */
+  private toSourcePath(entry: string): string {
+    const segments = entry.replace(/^\.\//, '').split('/');
+    while (segments.length > 1 && BUILD_OUTPUT_DIRS.includes(segments[0])) {
+      segments.shift();
+    }
+    const withoutExt = segments.join('/').replace(/(\.d)?\.(m|c)?(j|t)sx?$/, '');
+    return `src/${withoutExt}`;
+  }
+
+  private resolveSourceFile(basePath: string): string | null {
+    if (SOURCE_EXTENSIONS.includes(path.extname(basePath)) && !basePath.endsWith('.d.ts') && this.isFile(basePath)) {
+      return basePath;
+    }
+
+    const stripped = basePath.replace(/(\.d)?\.(m|c)?(j|t)sx?$/, '');
+    for (const ext of SOURCE_EXTENSIONS) {
+      if (this.isFile(stripped + ext)) {
+        return stripped + ext;
+      }
+    }
+
+    for (const ext of SOURCE_EXTENSIONS) {
+      const indexFile = path.join(basePath, `index${ext}`);
+      if (this.isFile(indexFile)) {
+        return indexFile;
+      }
+    }
+
+    return null;
+  }
+
+  private isFile(filePath: string): boolean {
+    try {
+      return fs.statSync(filePath).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Compiler options of the workspace package containing fromFile, falling
+   * back to the root tsconfig.
+   */
+  private getCompilerOptionsFor(fromFile?: string): ts.CompilerOptions {
+    const rootOptions = this.getAliasResolver().getCompilerOptions();
+    if (!fromFile) {
+      return rootOptions;
+    }
+
+    const relativePath = path.relative(this.projectRoot, path.resolve(this.projectRoot, fromFile));
+    const workspace = this.workspaces
+      .filter(pkg => relativePath.startsWith(pkg.root + path.sep))
+      .sort((a, b) => b.root.length - a.root.length)[0];
+    if (!workspace) {
+      return rootOptions;
+    }
+
+    if (!this.workspaceCompilerOptions.has(workspace.root)) {
+      const packageRoot = path.resolve(this.projectRoot, workspace.root);
+      const configPath = path.join(packageRoot, 'tsconfig.json');
+      let options: ts.CompilerOptions | null = null;
+
+      if (ts.sys.fileExists(configPath)) {
+        options = PathAliasResolver.loadCompilerOptions(packageRoot);
+      }
+      this.workspaceCompilerOptions.set(workspace.root, options);
+    }
+
+    return this.workspaceCompilerOptions.get(workspace.root) || rootOptions;
+  }
+
   async suggestImportsForIdentifiers(
     missingIdentifiers: Set<string>,
-    projectFiles: Array<{ path: string; content: string }>
+    projectFiles: ProjectFile[],
+    fromFile?: string
   ): Promise<Map<string, ImportInfo[]>> {
     const suggestions = new Map<string, ImportInfo[]>();
+    const aliasResolver = this.getAliasResolver();
+    const index = ExportIndex.forFiles(projectFiles, aliasResolver.moduleResolver);
+    aliasResolver.collectAliasUsage(projectFiles);
 
     for (const identifier of missingIdentifiers) {
       const possibleImports: ImportInfo[] = [];
 
       // 搜索项目文件中的导出
-      for (const file of projectFiles) {
-        const exports = this.extractExportsFromFile(file.content);
-        
-        if (exports.has(identifier)) {
-          possibleImports.push({
-            module: `./${path.relative(this.projectRoot, file.path)}`,
-            specifiers: [{
-              name: identifier,
-              isDefault: exports.get(identifier) === 'default'
-            }],
-            isRelative: true,
-            resolvedPath: file.path
-          });
-        }
+      const entries = index.findByName(identifier)
+        .filter(entry => !entry.externalModule)
+        .sort((a, b) => this.rankExport(a) - this.rankExport(b));
+
+      for (const entry of entries) {
+        const module = aliasResolver.getImportSpecifier(entry.file, fromFile);
+        possibleImports.push({
+          module,
+          specifiers: [{
+            name: entry.kind === 'default' ? entry.localName : identifier,
+            isDefault: entry.kind === 'default',
+            isTypeOnly: entry.kind === 'type'
+          }],
+          isRelative: module.startsWith('.'),
+          resolvedPath: path.resolve(this.projectRoot, entry.file)
+        });
       }
 
       // 检查常用的npm包
@@ -268,45 +454,13 @@ export class DependencyResolver {
     return suggestions;
   }
 
-  private extractExportsFromFile(content: string): Map<string, string> {
-    const exports = new Map<string, string>();
-    const sourceFile = ts.createSourceFile(
-      'temp.ts',
-      content,
-      ts.ScriptTarget.Latest,
-      true
-    );
-
-    const visit = (node: ts.Node) => {
-      if (ts.isExportDeclaration(node) && node.exportClause && ts.isNamedExports(node.exportClause)) {
-        for (const element of node.exportClause.elements) {
-          exports.set(element.name.text, 'named');
-        }
-      } else if (node.modifiers?.some(m => m.kind === ts.SyntaxKind.ExportKeyword)) {
-        if (ts.isFunctionDeclaration(node) && node.name) {
-          exports.set(node.name.text, 'named');
-        } else if (ts.isClassDeclaration(node) && node.name) {
-          exports.set(node.name.text, 'named');
-        } else if (ts.isVariableStatement(node)) {
-          node.declarationList.declarations.forEach(decl => {
-            if (ts.isIdentifier(decl.name)) {
-              exports.set(decl.name.text, 'named');
-            }
-          });
-        }
-      } else if (node.modifiers?.some(m => m.kind === ts.SyntaxKind.DefaultKeyword)) {
-        if (ts.isFunctionDeclaration(node) && node.name) {
-          exports.set(node.name.text, 'default');
-        } else if (ts.isClassDeclaration(node) && node.name) {
-          exports.set(node.name.text, 'default');
-        }
-      }
-
-      ts.forEachChild(node, visit);
-    };
-
-    visit(sourceFile);
-    return exports;
+  /**
+   * Lower is better: values before types, then the shortest import path,
+   * which favours barrel files over deep imports.
+   */
+  private rankExport(entry: ExportEntry): number {
+    const kindRank = entry.kind === 'type' ? 1000 : 0;
+    return kindRank + entry.file.split(/[\\/]/).length * 10 + entry.reexportPath.length;
   }
 
   private getCommonPackagesForIdentifier(identifier: string): Array<{ module: string; isDefault: boolean }> {
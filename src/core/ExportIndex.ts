@@ -0,0 +1,446 @@
+import * as ts from 'typescript';
+import * as path from 'path';
+import { ProjectFile } from '../types';
+
+export type ExportKind = 'value' | 'type' | 'default';
+
+export interface ExportEntry {
+  /** Name importers use; 'default' for default exports */
+  name: string;
+  /** Identifier to bind the export to: the exported name, or for defaults the declared name (else the file name) */
+  localName: string;
+  kind: ExportKind;
+  /** File exposing the export (project-relative) */
+  file: string;
+  /** File declaring it (project-relative), after following re-exports */
+  originalFile: string;
+  /** Files the export passes through between `file` and `originalFile` */
+  reexportPath: string[];
+  /** Module specifier of a re-export that couldn't be followed into the project */
+  externalModule?: string;
+}
+
+/** Resolves a module specifier to a project-relative file path, or undefined. */
+export type ModuleResolver = (specifier: string, fromFile: string) => string | undefined;
+
+interface LocalExport {
+  name: string;
+  localName: string;
+  kind: ExportKind;
+}
+
+interface Reexport {
+  specifier: string;
+  importedName: string;
+  exportedName: string;
+  typeOnly: boolean;
+}
+
+interface ModuleRecord {
+  content: string;
+  localExports: LocalExport[];
+  reexports: Reexport[];
+  starExports: string[];
+}
+
+const SOURCE_TYPES: ProjectFile['type'][] = ['ts', 'tsx', 'js', 'jsx'];
+const RESOLVE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+
+/**
+ * Project-wide index of exports built from the TypeScript AST, following
+ * re-export chains through barrel files.
+ *
+ * Use ExportIndex.forFiles() to share one index per file list; it re-parses
+ * only files whose content changed since the last call.
+ */
+export class ExportIndex {
+  private static shared = new WeakMap<ProjectFile[], ExportIndex>();
+
+  private records = new Map<string, ModuleRecord>();
+  private resolved = new Map<string, ExportEntry[]>();
+  private customResolver?: ModuleResolver;
+
+  constructor(files: ProjectFile[] = [], resolveModule?: ModuleResolver) {
+    this.customResolver = resolveModule;
+    this.sync(files);
+  }
+
+  static forFiles(files: ProjectFile[], resolveModule?: ModuleResolver): ExportIndex {
+    let index = ExportIndex.shared.get(files);
+    if (!index) {
+      index = new ExportIndex(files, resolveModule);
+      ExportIndex.shared.set(files, index);
+      return index;
+    }
+
+    if (resolveModule && resolveModule !== index.customResolver) {
+      index.customResolver = resolveModule;
+      index.resolved.clear();
+    }
+    index.sync(files);
+    return index;
+  }
+
+  /**
+   * Brings the index up to date with the given files, re-parsing only files
+   * whose content changed.
+   */
+  sync(files: ProjectFile[]): void {
+    const seen = new Set<string>();
+    let changed = false;
+
+    for (const file of files) {
+      if (!SOURCE_TYPES.includes(file.type)) {
+        continue;
+      }
+
+      seen.add(file.path);
+      if (this.records.get(file.path)?.content !== file.content) {
+        this.records.set(file.path, this.parseModule(file));
+        changed = true;
+      }
+    }
+
+    for (const filePath of this.records.keys()) {
+      if (!seen.has(filePath)) {
+        this.records.delete(filePath);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.resolved.clear();
+    }
+  }
+
+  /**
+   * All exports a file exposes, with re-exports resolved to their origin.
+   */
+  getExports(filePath: string): ExportEntry[] {
+    return this.resolveExports(filePath, new Set());
+  }
+
+  getFiles(): string[] {
+    return Array.from(this.records.keys());
+  }
+
+  /**
+   * Exports that bind to the given identifier: named exports with that name,
+   * and default exports whose declared or file name matches.
+   */
+  findByName(identifier: string): ExportEntry[] {
+    const matches: ExportEntry[] = [];
+
+    for (const filePath of this.records.keys()) {
+      for (const entry of this.getExports(filePath)) {
+        if (entry.kind === 'default' ? entry.localName === identifier : entry.name === identifier) {
+          matches.push(entry);
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  private resolveExports(filePath: string, visiting: Set<string>): ExportEntry[] {
+    const cached = this.resolved.get(filePath);
+    if (cached) {
+      return cached;
+    }
+
+    const record = this.records.get(filePath);
+    if (!record || visiting.has(filePath)) {
+      return [];
+    }
+    // Results computed inside a cycle may be partial, so only cache from the top
+    const isTopLevel = visiting.size === 0;
+    visiting.add(filePath);
+
+    const entries = new Map<string, ExportEntry>();
+
+    // `export *` never re-exports default, and local exports win over star exports
+    for (const specifier of record.starExports) {
+      const target = this.resolveModule(specifier, filePath);
+      if (!target) {
+        continue;
+      }
+      for (const entry of this.resolveExports(target, visiting)) {
+        if (entry.name !== 'default' && !entries.has(entry.name)) {
+          entries.set(entry.name, this.passThrough(entry, filePath));
+        }
+      }
+    }
+
+    for (const reexport of record.reexports) {
+      entries.set(reexport.exportedName, this.followReexport(reexport, filePath, visiting));
+    }
+
+    for (const local of record.localExports) {
+      entries.set(local.name, {
+        ...local,
+        file: filePath,
+        originalFile: filePath,
+        reexportPath: []
+      });
+    }
+
+    visiting.delete(filePath);
+
+    const result = Array.from(entries.values());
+    if (isTopLevel) {
+      this.resolved.set(filePath, result);
+    }
+    return result;
+  }
+
+  private followReexport(reexport: Reexport, filePath: string, visiting: Set<string>): ExportEntry {
+    const exportedName = reexport.exportedName;
+    const target = this.resolveModule(reexport.specifier, filePath);
+    const original = target
+      ? this.resolveExports(target, visiting).find(entry => entry.name === reexport.importedName)
+      : undefined;
+
+    const isType = reexport.typeOnly || original?.kind === 'type';
+    const kind: ExportKind = exportedName === 'default'
+      ? 'default'
+      : isType ? 'type' : 'value';
+    const localName = exportedName === 'default'
+      ? original?.localName || this.fileBaseName(filePath)
+      : exportedName;
+
+    if (!original) {
+      return {
+        name: exportedName,
+        localName,
+        kind,
+        file: filePath,
+        originalFile: target || filePath,
+        reexportPath: [],
+        ...(target ? {} : { externalModule: reexport.specifier })
+      };
+    }
+
+    return {
+      ...this.passThrough(original, filePath),
+      name: exportedName,
+      localName,
+      kind
+    };
+  }
+
+  private passThrough(entry: ExportEntry, filePath: string): ExportEntry {
+    return {
+      ...entry,
+      file: filePath,
+      reexportPath: [entry.file, ...entry.reexportPath].filter(p => p !== entry.originalFile)
+    };
+  }
+
+  private resolveModule(specifier: string, fromFile: string): string | undefined {
+    const custom = this.customResolver?.(specifier, fromFile);
+    if (custom && this.records.has(custom)) {
+      return custom;
+    }
+
+    if (!specifier.startsWith('.')) {
+      return undefined;
+    }
+
+    const basePath = path.join(path.dirname(fromFile), specifier);
+    const withoutJsExt = basePath.replace(/\.(m|c)?jsx?$/, '');
+    const candidates = [
+      basePath,
+      ...RESOLVE_EXTENSIONS.map(ext => withoutJsExt + ext),
+      ...RESOLVE_EXTENSIONS.map(ext => path.join(basePath, `index${ext}`))
+    ];
+
+    return candidates.find(candidate => this.records.has(candidate));
+  }
+
+  private fileBaseName(filePath: string): string {
+    const baseName = path.basename(filePath, path.extname(filePath));
+    const name = baseName === 'index' ? path.basename(path.dirname(filePath)) : baseName;
+    return name.replace(/[^a-zA-Z0-9_$]/g, '_');
+  }
+
+  private parseModule(file: ProjectFile): ModuleRecord {
+    const sourceFile = ts.createSourceFile(
+      file.path,
+      file.content,
+      ts.ScriptTarget.Latest,
+      true,
+      file.type === 'tsx' || file.type === 'jsx' ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+    );
+
+    const record: ModuleRecord = {
+      content: file.content,
+      localExports: [],
+      reexports: [],
+      starExports: []
+    };
+
+    // Local names bound by declarations and imports, to classify `export { x }`
+    const typeNames = new Set<string>();
+    const imports = new Map<string, { specifier: string; importedName: string; typeOnly: boolean }>();
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) {
+        typeNames.add(statement.name.text);
+      } else if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+        this.collectImports(statement, imports);
+      }
+    }
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isExportDeclaration(statement)) {
+        this.collectExportDeclaration(statement, record, typeNames, imports);
+      } else if (ts.isExportAssignment(statement)) {
+        if (!statement.isExportEquals) {
+          record.localExports.push({
+            name: 'default',
+            localName: ts.isIdentifier(statement.expression)
+              ? statement.expression.text
+              : this.fileBaseName(file.path),
+            kind: 'default'
+          });
+        }
+      } else if (this.hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+        this.collectExportedDeclaration(statement, record, file.path);
+      }
+    }
+
+    return record;
+  }
+
+  private collectImports(
+    statement: ts.ImportDeclaration,
+    imports: Map<string, { specifier: string; importedName: string; typeOnly: boolean }>
+  ): void {
+    const clause = statement.importClause;
+    if (!clause) {
+      return;
+    }
+
+    const specifier = (statement.moduleSpecifier as ts.StringLiteral).text;
+    if (clause.name) {
+      imports.set(clause.name.text, { specifier, importedName: 'default', typeOnly: clause.isTypeOnly });
+    }
+    if (clause.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+      for (const element of clause.namedBindings.elements) {
+        imports.set(element.name.text, {
+          specifier,
+          importedName: (element.propertyName || element.name).text,
+          typeOnly: clause.isTypeOnly || element.isTypeOnly
+        });
+      }
+    }
+  }
+
+  private collectExportDeclaration(
+    statement: ts.ExportDeclaration,
+    record: ModuleRecord,
+    typeNames: Set<string>,
+    imports: Map<string, { specifier: string; importedName: string; typeOnly: boolean }>
+  ): void {
+    const specifier = statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+      ? statement.moduleSpecifier.text
+      : undefined;
+    const clause = statement.exportClause;
+
+    if (!clause) {
+      if (specifier) {
+        record.starExports.push(specifier);
+      }
+      return;
+    }
+
+    if (ts.isNamespaceExport(clause)) {
+      record.localExports.push({
+        name: clause.name.text,
+        localName: clause.name.text,
+        kind: statement.isTypeOnly ? 'type' : 'value'
+      });
+      return;
+    }
+
+    for (const element of clause.elements) {
+      const localName = (element.propertyName || element.name).text;
+      const exportedName = element.name.text;
+      const typeOnly = statement.isTypeOnly || element.isTypeOnly;
+
+      if (specifier) {
+        record.reexports.push({ specifier, importedName: localName, exportedName, typeOnly });
+        continue;
+      }
+
+      // `import { X } from './x'; export { X };` is a re-export too
+      const imported = imports.get(localName);
+      if (imported) {
+        record.reexports.push({
+          specifier: imported.specifier,
+          importedName: imported.importedName,
+          exportedName,
+          typeOnly: typeOnly || imported.typeOnly
+        });
+        continue;
+      }
+
+      record.localExports.push({
+        name: exportedName,
+        localName: exportedName === 'default' ? localName : exportedName,
+        kind: exportedName === 'default'
+          ? 'default'
+          : typeOnly || typeNames.has(localName) ? 'type' : 'value'
+      });
+    }
+  }
+
+  private collectExportedDeclaration(statement: ts.Statement, record: ModuleRecord, filePath: string): void {
+    const isDefault = this.hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        for (const name of this.getBindingNames(declaration.name)) {
+          record.localExports.push({ name, localName: name, kind: 'value' });
+        }
+      }
+      return;
+    }
+
+    const isType = ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement);
+    const isValue = ts.isFunctionDeclaration(statement) ||
+      ts.isClassDeclaration(statement) ||
+      ts.isEnumDeclaration(statement) ||
+      ts.isModuleDeclaration(statement);
+    if (!isType && !isValue) {
+      return;
+    }
+
+    const declaredName = (statement as ts.DeclarationStatement).name;
+    const name = declaredName && ts.isIdentifier(declaredName) ? declaredName.text : undefined;
+
+    if (isDefault) {
+      record.localExports.push({
+        name: 'default',
+        localName: name || this.fileBaseName(filePath),
+        kind: 'default'
+      });
+    } else if (name) {
+      record.localExports.push({ name, localName: name, kind: isType ? 'type' : 'value' });
+    }
+  }
+
+  private getBindingNames(name: ts.BindingName): string[] {
+    if (ts.isIdentifier(name)) {
+      return [name.text];
+    }
+    return name.elements.flatMap(element =>
+      ts.isBindingElement(element) ? this.getBindingNames(element.name) : []
+    );
+  }
+
+  private hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return (ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined)
+      ?.some(modifier => modifier.kind === kind) || false;
+  }
+}
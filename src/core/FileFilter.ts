@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { glob } from 'glob';
+import ignore, { Ignore } from 'ignore';
+import { minimatch } from 'minimatch';
+import { ScanOptions } from '../types';
+import { logger } from '../utils/Logger';
+
+export const DEFAULT_INCLUDE = ['**/*.{ts,tsx,js,jsx}'];
+export const DEFAULT_EXCLUDE = [
+  '**/node_modules/**',
+  '**/dist/**',
+  '**/build/**',
+  '**/coverage/**',
+  '**/.git/**'
+];
+export const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+export const IGNORE_FILE_NAMES = ['.gitignore', '.partrenderignore'];
+
+interface IgnoreRules {
+  // Directory the ignore file lives in, relative to the project root ('' for the root)
+  dir: string;
+  rules: Ignore;
+}
+
+/**
+ * Decides which files under a project root belong in the CodeContext, combining
+ * include/exclude globs with .gitignore / .partrenderignore files at any depth.
+ *
+ * All paths passed in are relative to the project root.
+ */
+export class FileFilter {
+  private projectRoot: string;
+  private include: string[];
+  private exclude: string[];
+  private maxFileSize: number;
+  private respectIgnoreFiles: boolean;
+  private ignoreRules: IgnoreRules[] = [];
+
+  constructor(projectRoot: string, options: ScanOptions = {}) {
+    this.projectRoot = projectRoot;
+    this.include = options.include?.length ? options.include : DEFAULT_INCLUDE;
+    this.exclude = [...DEFAULT_EXCLUDE, ...(options.exclude || [])];
+    this.maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+    this.respectIgnoreFiles = options.respectIgnoreFiles !== false;
+  }
+
+  getIncludePatterns(): string[] {
+    return this.include;
+  }
+
+  getMaxFileSize(): number {
+    return this.maxFileSize;
+  }
+
+  /**
+   * Finds and parses every ignore file in the project. Call again after an
+   * ignore file changes.
+   */
+  async loadIgnoreFiles(): Promise<void> {
+    this.ignoreRules = [];
+
+    if (!this.respectIgnoreFiles) {
+      return;
+    }
+
+    const ignoreFiles = await glob(`**/{${IGNORE_FILE_NAMES.join(',')}}`, {
+      cwd: this.projectRoot,
+      dot: true,
+      ignore: {
+        childrenIgnored: (p) => this.isExcluded(p.relative(), true)
+      }
+    });
+
+    for (const ignoreFile of ignoreFiles) {
+      try {
+        const content = await fs.promises.readFile(path.join(this.projectRoot, ignoreFile), 'utf-8');
+        const dir = path.dirname(ignoreFile);
+        this.ignoreRules.push({
+          dir: dir === '.' ? '' : toPosix(dir),
+          rules: ignore().add(content)
+        });
+      } catch (error) {
+        logger.scanner.warn(`Failed to read ignore file ${ignoreFile}:`, error);
+      }
+    }
+
+    // Parents first, so deeper files can re-include what a parent ignored
+    this.ignoreRules.sort((a, b) => depth(a.dir) - depth(b.dir));
+    logger.scanner.debug(`Loaded ${this.ignoreRules.length} ignore files`);
+  }
+
+  /**
+   * Whether a path is excluded by the exclude globs or an ignore file. Pass
+   * isDirectory for directories so directory-only rules (`build/`) apply.
+   */
+  isExcluded(relativePath: string, isDirectory = false): boolean {
+    const posixPath = toPosix(relativePath);
+    if (!posixPath || posixPath === '.') {
+      return false;
+    }
+
+    const globPath = isDirectory ? `${posixPath}/` : posixPath;
+    if (this.exclude.some(pattern => minimatch(globPath, pattern, { dot: true }))) {
+      return true;
+    }
+
+    return this.isIgnoredByFiles(posixPath, isDirectory);
+  }
+
+  isIncluded(relativePath: string): boolean {
+    const posixPath = toPosix(relativePath);
+    return this.include.some(pattern => minimatch(posixPath, pattern, { dot: true })) &&
+      !this.isExcluded(posixPath);
+  }
+
+  isWithinSizeLimit(size: number): boolean {
+    return size <= this.maxFileSize;
+  }
+
+  private isIgnoredByFiles(posixPath: string, isDirectory: boolean): boolean {
+    // A path inside an ignored directory can't be re-included (same as git)
+    const segments = posixPath.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      if (this.testIgnoreRules(segments.slice(0, i).join('/'), true)) {
+        return true;
+      }
+    }
+
+    return this.testIgnoreRules(posixPath, isDirectory);
+  }
+
+  private testIgnoreRules(posixPath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+
+    for (const { dir, rules } of this.ignoreRules) {
+      if (dir && posixPath !== dir && !posixPath.startsWith(`${dir}/`)) {
+        continue;
+      }
+
+      const scopedPath = dir ? posixPath.slice(dir.length + 1) : posixPath;
+      if (!scopedPath) {
+        continue;
+      }
+
+      const result = rules.test(isDirectory ? `${scopedPath}/` : scopedPath);
+      if (result.ignored) {
+        ignored = true;
+      } else if (result.unignored) {
+        ignored = false;
+      }
+    }
+
+    return ignored;
+  }
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+function depth(dir: string): number {
+  return dir ? dir.split('/').length : 0;
+}
@@ -1,55 +1,148 @@
 import * as esbuild from 'esbuild';
-import { CodeContext, JSXSnippet, CompilationResult } from '../types';
+import * as path from 'path';
+import { DependencyResolver, DependencyContext } from './DependencyResolver';
+import { CompilationCache, ContentReader, getBundleInputs } from './CompilationCache';
+import { SnippetTypeChecker } from './SnippetTypeChecker';
+import { logger } from '../utils/Logger';
+import { extractInlineSourceMap } from '../utils/SourceMapper';
+import { isTopLevelAwaitError, toAsyncCommonJS } from '../utils/TopLevelAwait';
+import { fromEsbuildError, fromEsbuildMessage, formatDiagnostic, formatDiagnostics } from '../utils/Diagnostics';
+import {
+  CodeContext,
+  JSXSnippet,
+  CompilationResult,
+  CacheOptions,
+  ProjectFile,
+  ValidateOptions,
+  ValidationResult
+} from '../types';
 
+const CONTEXT_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+
+/**
+ * Compiles a JSX snippet against the project. Identifiers the snippet uses but
+ * doesn't declare are imported from the project's exports, and only the module
+ * graph reachable from the snippet is bundled; packages stay external.
+ */
 export class JSXCompiler {
   private codeContext: CodeContext;
+  private projectRoot: string;
+  private dependencyResolver: DependencyResolver;
+  private cache: CompilationCache | null;
+  private typeChecker?: SnippetTypeChecker;
 
-  constructor(codeContext: CodeContext) {
+  constructor(
+    codeContext: CodeContext,
+    projectRoot: string = process.cwd(),
+    cacheOptions?: CacheOptions,
+    typeChecker?: SnippetTypeChecker
+  ) {
     this.codeContext = codeContext;
+    this.typeChecker = typeChecker;
+    this.projectRoot = path.resolve(projectRoot);
+    this.dependencyResolver = new DependencyResolver(this.projectRoot);
+    this.dependencyResolver.setWorkspaces(codeContext.workspaces);
+    this.cache = CompilationCache.forProject(this.projectRoot, cacheOptions);
   }
 
   async compileJSXSnippet(snippet: JSXSnippet): Promise<CompilationResult> {
     try {
-      const fullCode = this.mergeSnippetWithContext(snippet);
-      const result = await this.compileWithEsbuild(fullCode, snippet.fileName || 'snippet.tsx');
+      const contextFiles = this.getContextFiles();
+      const readContent: ContentReader = filePath => contextFiles.get(filePath)?.content;
+      const cacheKey = CompilationCache.createKey('jsx', snippet, this.codeContext.dependencies);
+
+      const cached = await this.cache?.get(cacheKey, readContent);
+      if (cached) {
+        return {
+          success: true,
+          code: cached.code,
+          warnings: cached.warnings,
+          diagnostics: cached.diagnostics,
+          sourceMap: extractInlineSourceMap(cached.code),
+          topLevelAwait: cached.topLevelAwait,
+          cache: this.cache!.getStats(cacheKey, true)
+        };
+      }
+
+      const fileName = snippet.fileName || 'snippet.tsx';
+      const fullCode = await this.mergeSnippetWithContext(snippet);
+      let result: esbuild.BuildResult;
+      let topLevelAwait = false;
+      try {
+        result = await this.compileWithEsbuild(fullCode, fileName, contextFiles, 'cjs');
+      } catch (error) {
+        if (!isTopLevelAwaitError(error)) {
+          throw error;
+        }
+        // CommonJS can't express top-level await: bundle as ESM and convert the result
+        result = await this.compileWithEsbuild(fullCode, fileName, contextFiles, 'esm');
+        topLevelAwait = true;
+      }
+
+      const output = result.outputFiles?.[0]?.text;
+      const code = output !== undefined && topLevelAwait ? toAsyncCommonJS(output) : output;
+      const warnings = result.warnings?.map(w => w.text);
+      const diagnostics = result.warnings?.map(w => fromEsbuildMessage(w, 'warning'));
+
+      // Without a metafile the entry couldn't be invalidated, so it isn't cached
+      if (this.cache && code !== undefined && result.metafile) {
+        const inputs = getBundleInputs(result.metafile, this.projectRoot, fileName);
+        await this.cache.set(cacheKey, { code, warnings, diagnostics, topLevelAwait }, inputs, readContent);
+      }
       
       return {
         success: true,
-        code: result.outputFiles?.[0]?.text,
-        warnings: result.warnings?.map(w => w.text)
+        code,
+        warnings,
+        diagnostics,
+        sourceMap: code !== undefined ? extractInlineSourceMap(code) : undefined,
+        topLevelAwait,
+        cache: this.cache?.getStats(cacheKey, false)
       };
     } catch (error) {
+      const diagnostics = fromEsbuildError(error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : String(error)
+        error: formatDiagnostics(diagnostics),
+        diagnostics
       };
     }
   }
 
-  private mergeSnippetWithContext(snippet: JSXSnippet): string {
-    const imports = this.generateImports(snippet);
-    const contextCode = this.generateContextCode();
-    
-    return `
-${imports}
-${contextCode}
+  private async mergeSnippetWithContext(snippet: JSXSnippet): Promise<string> {
+    const imports = await this.generateImports(snippet);
 
-// User JSX Snippet
-${snippet.code}
+    // Imports are hoisted, so appending them keeps the snippet's own line
+    // numbers intact in the source map
+    return `${snippet.code}
+
+// Generated imports
+${imports}
 `;
   }
 
-  private generateImports(snippet: JSXSnippet): string {
+  private async generateImports(snippet: JSXSnippet): Promise<string> {
+    const depContext = await this.dependencyResolver.analyzeDependencies(snippet.code, snippet.fileName);
+    const bound = new Set(depContext.imports.flatMap(imp =>
+      imp.specifiers.map(spec => spec.alias || spec.name)
+    ));
+
     const defaultImports = [
-      "import React from 'react';",
-      "import ReactDOM from 'react-dom';"
-    ];
+      { name: 'React', module: 'react' },
+      { name: 'ReactDOM', module: 'react-dom' }
+    ]
+      .filter(({ name }) => !bound.has(name) && !this.isDeclaredBySnippet(name, depContext))
+      .map(({ name, module }) => {
+        bound.add(name);
+        return `import ${name} from '${module}';`;
+      });
 
     const customImports = snippet.dependencies?.map(dep => 
       this.generateImportForDependency(dep)
     ).filter(Boolean) || [];
 
-    const projectImports = this.generateProjectImports();
+    const missing = new Set(Array.from(depContext.missingIdentifiers).filter(id => !bound.has(id)));
+    const projectImports = await this.generateProjectImports(missing, snippet.fileName);
 
     return [...defaultImports, ...customImports, ...projectImports].join('\n');
   }
@@ -61,97 +154,81 @@ ${snippet.code}
     return '';
   }
 
-  private generateProjectImports(): string[] {
-    const imports: string[] = [];
-    const exports = this.extractProjectExports();
-
-    for (const [filePath, exportNames] of Object.entries(exports)) {
-      if (exportNames.length > 0) {
-        const importPath = this.convertToImportPath(filePath);
-        const namedImports = exportNames.join(', ');
-        imports.push(`import { ${namedImports} } from '${importPath}';`);
-      }
+  /**
+   * Imports each missing identifier from the best-ranked project export.
+   * Types are erased by esbuild, so only value exports are imported.
+   */
+  private async generateProjectImports(missing: Set<string>, fromFile?: string): Promise<string[]> {
+    if (missing.size === 0) {
+      return [];
     }
 
-    return imports;
-  }
-
-  private extractProjectExports(): Record<string, string[]> {
-    const exports: Record<string, string[]> = {};
-
-    for (const file of this.codeContext.projectFiles) {
-      if (['ts', 'tsx', 'js', 'jsx'].includes(file.type)) {
-        const fileExports = this.extractExportsFromContent(file.content);
-        if (fileExports.length > 0) {
-          exports[file.path] = fileExports;
-        }
-      }
-    }
-
-    return exports;
-  }
+    const suggestions = await this.dependencyResolver.suggestImportsForIdentifiers(
+      missing,
+      this.codeContext.projectFiles,
+      fromFile
+    );
+    const imports: string[] = [];
 
-  private extractExportsFromContent(content: string): string[] {
-    const exports: string[] = [];
-    const patterns = [
-      /export\s+(?:const|let|var|function|class|interface|type)\s+([a-zA-Z_$][a-zA-Z0-9_$]*)/g,
-      /export\s+default\s+(?:function\s+)?([a-zA-Z_$][a-zA-Z0-9_$]*)/g
-    ];
-
-    for (const pattern of patterns) {
-      let match;
-      while ((match = pattern.exec(content)) !== null) {
-        exports.push(match[1]);
+    for (const [identifier, candidates] of suggestions) {
+      const candidate = candidates.find(imp => imp.resolvedPath && !imp.specifiers[0].isTypeOnly);
+      if (!candidate) {
+        continue;
       }
-    }
 
-    const namedExportRegex = /export\s*{\s*([^}]+)\s*}/g;
-    let match;
-    while ((match = namedExportRegex.exec(content)) !== null) {
-      const namedExports = match[1]
-        .split(',')
-        .map(exp => exp.trim().split(/\s+as\s+/)[0].trim())
-        .filter(Boolean);
-      exports.push(...namedExports);
+      const specifier = candidate.specifiers[0];
+      const clause = specifier.isDefault
+        ? identifier
+        : `{ ${specifier.name === identifier ? identifier : `${specifier.name} as ${identifier}`} }`;
+      imports.push(`import ${clause} from '${candidate.module}';`);
+      logger.compiler.debug(`Auto-importing ${identifier} from ${candidate.module}`);
     }
 
-    return [...new Set(exports)];
-  }
-
-  private generateContextCode(): string {
-    const contextFiles = this.codeContext.projectFiles
-      .filter(file => ['ts', 'tsx', 'js', 'jsx'].includes(file.type))
-      .map(file => `// File: ${file.path}\n${file.content}`)
-      .join('\n\n');
-
-    return `
-// Project Context Code
-${contextFiles}
-`;
+    return imports;
   }
 
-  private convertToImportPath(filePath: string): string {
-    return './' + filePath.replace(/\.(ts|tsx|js|jsx)$/, '');
+  private isDeclaredBySnippet(name: string, depContext: DependencyContext): boolean {
+    return depContext.usedIdentifiers.has(name) && !depContext.missingIdentifiers.has(name);
   }
 
   private sanitizeImportName(name: string): string {
     return name.replace(/[^a-zA-Z0-9_$]/g, '_');
   }
 
-  private async compileWithEsbuild(code: string, fileName: string): Promise<esbuild.BuildResult> {
+  private getContextFiles(): Map<string, ProjectFile> {
+    return new Map(
+      this.codeContext.projectFiles.map(file => [path.resolve(this.projectRoot, file.path), file])
+    );
+  }
+
+  private async compileWithEsbuild(
+    code: string,
+    fileName: string,
+    contextFiles: Map<string, ProjectFile>,
+    format: 'cjs' | 'esm'
+  ): Promise<esbuild.BuildResult> {
     return await esbuild.build({
       stdin: {
         contents: code,
         loader: fileName.endsWith('.tsx') ? 'tsx' : 'jsx',
-        resolveDir: process.cwd()
+        resolveDir: this.projectRoot,
+        sourcefile: fileName
       },
-      bundle: false,
+      absWorkingDir: this.projectRoot,
+      // Errors and warnings are returned as diagnostics instead
+      logLevel: 'silent',
+      bundle: true,
       write: false,
+      metafile: true,
+      sourcemap: 'inline',
       target: 'es2020',
-      format: 'cjs',
-      jsx: 'transform',
-      jsxFactory: 'React.createElement',
-      jsxFragment: 'React.Fragment',
+      format,
+      supported: { 'top-level-await': format === 'esm' },
+      platform: 'node',
+      // Project files may rely on the automatic runtime and never import React
+      jsx: 'automatic',
+      jsxImportSource: 'react',
+      plugins: [this.createContextPlugin(contextFiles)],
       define: {
         'global': 'globalThis',
         'process.env.NODE_ENV': '"development"'
@@ -159,18 +236,106 @@ ${contextFiles}
     });
   }
 
-  async validateJSX(code: string): Promise<{ valid: boolean; errors?: string[] }> {
+  /**
+   * Resolves project imports to files of the CodeContext and loads them from
+   * there, so the bundle reflects the scanned (possibly unsaved) sources.
+   * Everything outside the project is left to the runtime's require.
+   */
+  private createContextPlugin(contextFiles: Map<string, ProjectFile>): esbuild.Plugin {
+    const dependencyResolver = this.dependencyResolver;
+    const aliasResolver = dependencyResolver.getAliasResolver();
+
+    const findContextFile = (basePath: string): string | null => {
+      const candidates = [
+        basePath,
+        ...CONTEXT_EXTENSIONS.map(ext => basePath + ext),
+        ...CONTEXT_EXTENSIONS.map(ext => path.join(basePath, `index${ext}`))
+      ];
+      return candidates.find(candidate => contextFiles.has(candidate)) || null;
+    };
+
+    return {
+      name: 'jsx-context',
+      setup(build) {
+        build.onResolve({ filter: /.*/ }, (args) => {
+          const importer = args.importer && args.importer !== '<stdin>'
+            ? args.importer
+            : path.join(args.resolveDir, 'index.ts');
+
+          if (args.path.startsWith('.') || path.isAbsolute(args.path)) {
+            const contextFile = findContextFile(path.resolve(path.dirname(importer), args.path));
+            if (contextFile) {
+              return { path: contextFile };
+            }
+            const resolved = aliasResolver.resolve(args.path, importer);
+            return resolved ? { path: resolved } : null;
+          }
+
+          // 工作区内的包和tsconfig别名指向项目源码
+          const source = dependencyResolver.resolveWorkspaceImport(args.path) ||
+            aliasResolver.resolve(args.path, importer);
+          if (source) {
+            return { path: source };
+          }
+
+          // 第三方包由运行时require
+          return { path: args.path, external: true };
+        });
+
+        build.onLoad({ filter: /\.(m|c)?(t|j)sx?$/ }, (args) => {
+          const file = contextFiles.get(args.path);
+          if (!file) {
+            return null;
+          }
+          return {
+            contents: file.content,
+            loader: getLoader(file.path),
+            resolveDir: path.dirname(args.path)
+          };
+        });
+      }
+    };
+  }
+
+  /**
+   * Checks a snippet for syntax errors, and with `typeCheck` also type-checks
+   * it (with the imports compileJSXSnippet would add) against the project.
+   */
+  async validateJSX(code: string, options: ValidateOptions = {}): Promise<ValidationResult> {
     try {
       await esbuild.transform(code, {
         loader: 'tsx',
-        jsx: 'transform'
+        jsx: 'transform',
+        sourcefile: options.fileName || 'snippet.tsx'
       });
-      return { valid: true };
     } catch (error) {
+      const diagnostics = fromEsbuildError(error, 'parse');
       return {
         valid: false,
-        errors: [error instanceof Error ? error.message : String(error)]
+        errors: diagnostics.filter(d => d.severity === 'error').map(formatDiagnostic),
+        diagnostics
       };
     }
+
+    if (!options.typeCheck) {
+      return { valid: true };
+    }
+
+    const typeChecker = this.typeChecker || SnippetTypeChecker.forProject(this.projectRoot);
+    const fullCode = await this.mergeSnippetWithContext({ code, fileName: options.fileName });
+    const diagnostics = typeChecker.check(fullCode, {
+      fileName: options.fileName,
+      lineCount: code.split('\n').length
+    });
+    const errors = diagnostics.filter(d => d.severity === 'error').map(formatDiagnostic);
+
+    return errors.length > 0
+      ? { valid: false, errors, diagnostics }
+      : { valid: true, diagnostics };
   }
-}
\ No newline at end of file
+}
+
+function getLoader(filePath: string): esbuild.Loader {
+  const ext = path.extname(filePath).replace(/^\.(m|c)?/, '');
+  return (['ts', 'tsx', 'jsx'].includes(ext) ? ext : 'js') as esbuild.Loader;
+}
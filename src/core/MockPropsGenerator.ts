@@ -0,0 +1,171 @@
+import * as ts from 'typescript';
+import * as React from 'react';
+import { createSeededRandom, DEFAULT_CLOCK_TIME } from '../runtime/VirtualClock';
+import { MockPropsOptions } from '../types';
+
+// Deeper objects are left empty, which also ends recursive types
+const MAX_DEPTH = 4;
+const ARRAY_LENGTH = 2;
+const WORDS = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf', 'hotel'];
+
+/**
+ * Generates props a component can render with from its props type: a value
+ * for every required prop, following the type through unions, literals and
+ * enums, arrays and tuples, nested objects, callbacks and React nodes.
+ *
+ * Values come from a seeded random source, so the same seed and props type
+ * always give the same props. Optional props are left out.
+ */
+export class MockPropsGenerator {
+  private checker: ts.TypeChecker;
+  private random: () => number;
+
+  constructor(checker: ts.TypeChecker, options: MockPropsOptions = {}) {
+    this.checker = checker;
+    this.random = createSeededRandom(options.seed ?? 1);
+  }
+
+  generateProps(propsType: ts.Type): Record<string, unknown> {
+    return this.generateObject(propsType, 0);
+  }
+
+  private generate(type: ts.Type, name: string, depth: number): unknown {
+    const flags = type.flags;
+
+    // React's types are recognized by name, before their structure is looked at
+    const reactValue = this.generateReactValue(type, name);
+    if (reactValue !== undefined) {
+      return reactValue;
+    }
+
+    if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown | ts.TypeFlags.TypeParameter)) {
+      return this.generateString(name);
+    }
+    if (flags & ts.TypeFlags.BooleanLiteral) {
+      return this.checker.typeToString(type) === 'true';
+    }
+    if (flags & ts.TypeFlags.Boolean) {
+      return this.random() < 0.5;
+    }
+    if (type.isStringLiteral() || type.isNumberLiteral()) {
+      return type.value;
+    }
+    // Also covers enums, which are unions of their members
+    if (type.isUnion()) {
+      const members = type.types.filter(member => !(member.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Null | ts.TypeFlags.Void)));
+      return members.length > 0 ? this.generate(this.pick(members), name, depth) : undefined;
+    }
+    if (flags & ts.TypeFlags.StringLike) {
+      return this.generateString(name);
+    }
+    if (flags & ts.TypeFlags.NumberLike) {
+      return Math.floor(this.random() * 100) + 1;
+    }
+    if (flags & ts.TypeFlags.BigIntLike) {
+      return BigInt(Math.floor(this.random() * 100) + 1);
+    }
+    if (flags & ts.TypeFlags.Null) {
+      return null;
+    }
+    if (!(flags & ts.TypeFlags.Object) && !type.isIntersection()) {
+      return undefined;
+    }
+
+    if (this.checker.isTupleType(type)) {
+      return this.checker.getTypeArguments(type as ts.TypeReference).map(element => this.generate(element, name, depth + 1));
+    }
+    if (this.checker.isArrayType(type)) {
+      const [elementType] = this.checker.getTypeArguments(type as ts.TypeReference);
+      return Array.from({ length: ARRAY_LENGTH }, () => this.generate(elementType, name, depth + 1));
+    }
+
+    const [signature] = type.getCallSignatures();
+    if (signature) {
+      // Render props get something to render; event handlers return nothing
+      const returnValue = this.generate(signature.getReturnType(), name, depth + 1);
+      return () => returnValue;
+    }
+
+    if (type.getSymbol()?.getName() === 'Date') {
+      return new Date(DEFAULT_CLOCK_TIME);
+    }
+    // Built-in types (DOM nodes, Map, Promise) can't be mocked member by member
+    if (depth >= MAX_DEPTH || this.isBuiltinType(type)) {
+      return {};
+    }
+    return this.generateObject(type, depth + 1);
+  }
+
+  private generateObject(type: ts.Type, depth: number): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+
+    for (const property of this.checker.getPropertiesOfType(type)) {
+      if (property.flags & ts.SymbolFlags.Optional) {
+        continue;
+      }
+      values[property.name] = this.generate(this.checker.getTypeOfSymbol(property), property.name, depth);
+    }
+
+    return values;
+  }
+
+  private isBuiltinType(type: ts.Type): boolean {
+    const declarations = type.getSymbol()?.getDeclarations() ?? [];
+    // TypeScript's lib files are the ones marked no-default-lib
+    return declarations.length > 0 && declarations.every(declaration => declaration.getSourceFile().hasNoDefaultLib);
+  }
+
+  /**
+   * A string for ReactNode (and unions containing it), an element for
+   * ReactElement and JSX.Element, undefined for other types.
+   */
+  private generateReactValue(type: ts.Type, name: string): unknown {
+    const symbol = type.aliasSymbol ?? type.getSymbol();
+    const typeName = symbol?.getName();
+
+    if (typeName === 'ReactNode') {
+      return this.generateString(name);
+    }
+    if (typeName === 'ReactElement' || (symbol && /\bJSX\.Element$/.test(this.checker.getFullyQualifiedName(symbol)))) {
+      return React.createElement('span', null, this.generateString(name));
+    }
+    return undefined;
+  }
+
+  private generateString(name: string): string {
+    const word = this.pick(WORDS);
+
+    if (/e-?mail/i.test(name)) {
+      return `${word}@example.com`;
+    }
+    if (/(url|href|src|link)$/i.test(name)) {
+      return `https://example.com/${word}`;
+    }
+    if (/(^id|Id)$/.test(name)) {
+      return `${word}-${Math.floor(this.random() * 1000)}`;
+    }
+    return `${name.charAt(0).toUpperCase()}${name.slice(1)} ${word}`;
+  }
+
+  private pick<T>(items: T[]): T {
+    return items[Math.floor(this.random() * items.length)];
+  }
+}
+
+/**
+ * The props type of a component declaration: the first parameter of a
+ * function component (also through memo and forwardRef), or the `props` of
+ * a class component.
+ */
+export function getComponentPropsType(checker: ts.TypeChecker, node: ts.Node): ts.Type | undefined {
+  const type = checker.getTypeAtLocation(node);
+
+  if (ts.isClassDeclaration(node) || ts.isClassExpression(node)) {
+    const props = checker.getPropertyOfType(type, 'props');
+    return props && checker.getTypeOfSymbol(props);
+  }
+
+  const [signature] = type.getCallSignatures();
+  const [propsParameter] = signature?.getParameters() ?? [];
+  return propsParameter && checker.getTypeOfSymbol(propsParameter);
+}
@@ -3,8 +3,21 @@ import { DependencyResolver } from './DependencyResolver';
 import { IsolatedRenderer } from '../preview/IsolatedRenderer';
 import { CodeCompleter } from '../ai/CodeCompleter';
 import { CodeScanner } from './CodeScanner';
+import { SnippetTypeChecker } from './SnippetTypeChecker';
 import { logger } from '../utils/Logger';
-import { CodeContext, RenderResult } from '../types';
+import { fromError } from '../utils/Diagnostics';
+import {
+  CodeContext,
+  RenderResult,
+  ScanOptions,
+  CacheOptions,
+  ModuleOptions,
+  ClockOptions,
+  NetworkOptions,
+  Interaction,
+  StreamingOptions,
+  MockPropsOptions
+} from '../types';
 
 export interface PartialRenderOptions {
   projectRoot: string;
@@ -13,6 +26,27 @@ export interface PartialRenderOptions {
   ollamaBaseUrl?: string;
   mockProps?: Record<string, any>;
   styles?: string;
+  scan?: ScanOptions;
+  cache?: CacheOptions;
+  /** Which modules rendered code may require */
+  modules?: ModuleOptions;
+  /** Render against a virtual clock, so dates, timers and Math.random are reproducible */
+  clock?: boolean | ClockOptions;
+  /** Mocks answering fetch / XMLHttpRequest of rendered components */
+  network?: NetworkOptions;
+  /** Hydrate rendered components in their window, so effects run and state can change */
+  mount?: boolean;
+  /** User actions performed on every rendered component before its html is captured; implies mount */
+  interactions?: Interaction[];
+  /** Stream the render, waiting for Suspense boundaries (React.lazy, suspending data) to resolve */
+  streaming?: boolean | StreamingOptions;
+  /**
+   * Generate props for the rendered component from its props type, so it
+   * renders without mockProps; mockProps, when given, override them
+   */
+  generateProps?: boolean | MockPropsOptions;
+  /** How imported images and fonts reach the preview: inlined as data URLs (default) or as URLs the preview server serves */
+  assets?: 'inline' | 'url';
 }
 
 export interface PartialRenderResult extends RenderResult {
@@ -32,7 +66,7 @@ export class PartialRenderer {
   constructor(options: PartialRenderOptions) {
     this.options = options;
     this.dependencyResolver = new DependencyResolver(options.projectRoot);
-    this.renderer = new IsolatedRenderer();
+    this.renderer = new IsolatedRenderer(options.projectRoot, options.modules);
     
     if (options.enableAI) {
       this.codeCompleter = new CodeCompleter(options.ollamaBaseUrl, options.aiModel);
@@ -43,11 +77,12 @@ export class PartialRenderer {
     logger.core.info('Initializing PartialRenderer');
     
     // 扫描项目
-    const scanner = new CodeScanner(this.options.projectRoot);
+    const scanner = new CodeScanner(this.options.projectRoot, this.options.scan);
     this.codeContext = await scanner.scanProject();
+    this.dependencyResolver.setWorkspaces(this.codeContext.workspaces);
     
     // 初始化编译器
-    this.compiler = new SmartCompiler(this.options.projectRoot, this.codeContext);
+    this.compiler = new SmartCompiler(this.options.projectRoot, this.codeContext, this.options.cache);
     
     logger.core.info('PartialRenderer initialized successfully');
   }
@@ -88,13 +123,15 @@ export class PartialRenderer {
         code: finalCode,
         filePath,
         mockProps: this.options.mockProps,
-        wrapComponent: true
+        wrapComponent: true,
+        assets: this.options.assets
       });
 
       if (!compilationResult.success) {
         return {
           success: false,
           error: compilationResult.error,
+          diagnostics: compilationResult.diagnostics,
           suggestions
         };
       }
@@ -102,14 +139,28 @@ export class PartialRenderer {
       // 4. 渲染组件
       const renderResult = await this.renderer.render({
         compiledCode: compilationResult.code!,
-        props: this.options.mockProps,
-        styles: this.options.styles
+        props: this.getProps(finalCode, filePath),
+        styles: this.options.styles,
+        css: compilationResult.css,
+        tailwind: this.codeContext?.tailwind,
+        sourceMap: compilationResult.sourceMap,
+        clock: this.options.clock,
+        network: this.options.network,
+        mount: this.options.mount,
+        interactions: this.options.interactions,
+        streaming: this.options.streaming
       });
 
       if (renderResult.error) {
         return {
           success: false,
           error: renderResult.error,
+          stack: renderResult.stack,
+          frames: renderResult.frames,
+          componentStack: renderResult.componentStack,
+          diagnostics: renderResult.diagnostics,
+          logs: renderResult.logs,
+          requests: renderResult.requests,
           html: renderResult.html,
           suggestions
         };
@@ -120,6 +171,10 @@ export class PartialRenderer {
         success: true,
         html: renderResult.html,
         output: { componentName: renderResult.componentName },
+        diagnostics: [...(compilationResult.diagnostics || []), ...(renderResult.diagnostics || [])],
+        logs: renderResult.logs,
+        requests: renderResult.requests,
+        chunks: renderResult.chunks,
         suggestions,
         usedImports: Array.from(dependencies.imports.map(i => i.module))
       };
@@ -128,7 +183,8 @@ export class PartialRenderer {
       logger.core.error('Partial render failed', error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : String(error)
+        error: error instanceof Error ? error.message : String(error),
+        diagnostics: [fromError(error, 'compile')]
       };
     }
   }
@@ -147,6 +203,25 @@ export class PartialRenderer {
     return results;
   }
 
+  /** mockProps over the props generated from the component's type, when enabled */
+  private getProps(code: string, filePath?: string): Record<string, any> | undefined {
+    const { generateProps, mockProps } = this.options;
+    if (!generateProps) {
+      return mockProps;
+    }
+
+    try {
+      const generated = SnippetTypeChecker.forProject(this.options.projectRoot).generateMockProps(code, {
+        ...(generateProps === true ? {} : generateProps),
+        fileName: filePath
+      });
+      return { ...generated, ...mockProps };
+    } catch (error) {
+      logger.core.warn('Could not generate props:', error);
+      return mockProps;
+    }
+  }
+
   private getProjectContext(): string {
     if (!this.codeContext) return '';
 
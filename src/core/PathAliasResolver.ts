@@ -0,0 +1,264 @@
+import * as ts from 'typescript';
+import * as path from 'path';
+import { ModuleResolver } from './ExportIndex';
+import { ProjectFile } from '../types';
+import { logger } from '../utils/Logger';
+
+const IMPORT_SPECIFIER_REGEX = /(?:from\s+|import\s*\(\s*|require\s*\(\s*|import\s+)['"]([^'"]+)['"]/g;
+
+/**
+ * Resolves imports the way the project's tsconfig does (`paths`, `baseUrl`,
+ * `rootDirs`, following `extends`), and picks the import specifier a file
+ * should be imported with, preferring the alias style the project itself uses.
+ */
+export class PathAliasResolver {
+  private static shared = new Map<string, PathAliasResolver>();
+
+  private projectRoot: string;
+  private compilerOptions: ts.CompilerOptions;
+  private resolutionCache: ts.ModuleResolutionCache;
+  private aliasUsage = new Map<string, number>();
+  private fileAliasUsage = new WeakMap<ProjectFile, Map<string, number>>();
+
+  /** Resolver for ExportIndex, returning project-relative paths */
+  readonly moduleResolver: ModuleResolver;
+
+  constructor(projectRoot: string, compilerOptions?: ts.CompilerOptions) {
+    this.projectRoot = path.resolve(projectRoot);
+    this.compilerOptions = compilerOptions || PathAliasResolver.loadCompilerOptions(this.projectRoot);
+    this.resolutionCache = ts.createModuleResolutionCache(
+      this.projectRoot,
+      fileName => fileName,
+      this.compilerOptions
+    );
+
+    this.moduleResolver = (specifier, fromFile) => {
+      const resolved = this.resolve(specifier, path.resolve(this.projectRoot, fromFile));
+      return resolved ? path.relative(this.projectRoot, resolved) : undefined;
+    };
+  }
+
+  /**
+   * Shared resolver per project root, so caches survive across compilations.
+   */
+  static forProject(projectRoot: string): PathAliasResolver {
+    const root = path.resolve(projectRoot);
+    let resolver = PathAliasResolver.shared.get(root);
+    if (!resolver) {
+      resolver = new PathAliasResolver(root);
+      PathAliasResolver.shared.set(root, resolver);
+    }
+    return resolver;
+  }
+
+  /**
+   * Drops the shared resolver of a project whose tsconfig changed, so the
+   * next forProject reads the config again.
+   */
+  static invalidate(projectRoot: string): void {
+    PathAliasResolver.shared.delete(path.resolve(projectRoot));
+  }
+
+  /** tsconfig.json, jsconfig.json and configs they may extend, like tsconfig.base.json */
+  static isConfigFile(filePath: string): boolean {
+    return /^[tj]sconfig(\..+)?\.json$/.test(path.basename(filePath));
+  }
+
+  /**
+   * Reads the nearest tsconfig.json (or jsconfig.json), following `extends`.
+   */
+  static loadCompilerOptions(projectRoot: string): ts.CompilerOptions {
+    const configPath = ts.findConfigFile(projectRoot, ts.sys.fileExists, 'tsconfig.json') ||
+      ts.findConfigFile(projectRoot, ts.sys.fileExists, 'jsconfig.json');
+    if (!configPath) {
+      return {};
+    }
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      logger.compiler.warn(`Could not read ${configPath}:`, ts.flattenDiagnosticMessageText(error.messageText, '\n'));
+      return {};
+    }
+
+    return ts.parseJsonConfigFileContent(
+      config,
+      ts.sys,
+      path.dirname(configPath),
+      undefined,
+      configPath
+    ).options;
+  }
+
+  getCompilerOptions(): ts.CompilerOptions {
+    return this.compilerOptions;
+  }
+
+  /**
+   * Resolves a specifier to a project source file. Returns null for packages
+   * from node_modules and for anything unresolvable.
+   */
+  resolve(specifier: string, fromFile: string, compilerOptions?: ts.CompilerOptions): string | null {
+    const options = compilerOptions || this.compilerOptions;
+    const { resolvedModule } = ts.resolveModuleName(
+      specifier,
+      fromFile,
+      { ...options, allowJs: true },
+      ts.sys,
+      options === this.compilerOptions ? this.resolutionCache : undefined
+    );
+
+    if (!resolvedModule || resolvedModule.isExternalLibraryImport) {
+      return null;
+    }
+
+    return resolvedModule.resolvedFileName;
+  }
+
+  /**
+   * Whether a bare specifier is a tsconfig alias rather than a package name.
+   */
+  isAlias(specifier: string): boolean {
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+      return false;
+    }
+    return Object.keys(this.compilerOptions.paths || {}).some(pattern => this.matchPattern(pattern, specifier) !== null) ||
+      (!!this.compilerOptions.baseUrl && this.resolve(specifier, path.join(this.projectRoot, 'index.ts')) !== null);
+  }
+
+  /**
+   * Records which alias patterns the project's own imports use, so
+   * getImportSpecifier can prefer them.
+   */
+  collectAliasUsage(projectFiles: ProjectFile[]): void {
+    this.aliasUsage.clear();
+
+    for (const file of projectFiles) {
+      // ProjectFile objects are replaced on change, so identity is a safe cache key
+      let usage = this.fileAliasUsage.get(file);
+      if (!usage) {
+        usage = this.countAliasUsage(file);
+        this.fileAliasUsage.set(file, usage);
+      }
+
+      for (const [form, count] of usage) {
+        this.aliasUsage.set(form, (this.aliasUsage.get(form) || 0) + count);
+      }
+    }
+  }
+
+  private countAliasUsage(file: ProjectFile): Map<string, number> {
+    const usage = new Map<string, number>();
+    const patterns = Object.keys(this.compilerOptions.paths || {});
+
+    IMPORT_SPECIFIER_REGEX.lastIndex = 0;
+    let match;
+    while ((match = IMPORT_SPECIFIER_REGEX.exec(file.content)) !== null) {
+      const specifier = match[1];
+      if (specifier.startsWith('.')) {
+        continue;
+      }
+
+      const pattern = patterns.find(p => this.matchPattern(p, specifier) !== null);
+      if (pattern) {
+        usage.set(pattern, (usage.get(pattern) || 0) + 1);
+      } else if (this.compilerOptions.baseUrl && this.resolve(specifier, path.resolve(this.projectRoot, file.path))) {
+        usage.set('baseUrl', (usage.get('baseUrl') || 0) + 1);
+      }
+    }
+
+    return usage;
+  }
+
+  /**
+   * The specifier to import targetFile with: the most used alias form that
+   * reaches it, else a relative path from fromFile (or the project root).
+   */
+  getImportSpecifier(targetFile: string, fromFile?: string): string {
+    const target = stripExtension(path.resolve(this.projectRoot, targetFile));
+    const candidates: Array<{ specifier: string; usage: number }> = [];
+
+    for (const [pattern, substitutions] of Object.entries(this.compilerOptions.paths || {})) {
+      for (const substitution of substitutions) {
+        const specifier = this.applyPatternInReverse(pattern, substitution, target);
+        if (specifier) {
+          candidates.push({ specifier, usage: this.aliasUsage.get(pattern) || 0 });
+        }
+      }
+    }
+
+    const baseUrl = this.compilerOptions.baseUrl;
+    if (baseUrl && isWithin(baseUrl, target)) {
+      candidates.push({
+        specifier: toPosix(path.relative(baseUrl, target)),
+        usage: this.aliasUsage.get('baseUrl') || 0
+      });
+    }
+
+    const best = candidates
+      .filter(candidate => candidate.usage > 0)
+      .sort((a, b) => b.usage - a.usage || a.specifier.length - b.specifier.length)[0];
+    if (best) {
+      return best.specifier;
+    }
+
+    const fromDir = fromFile ? path.dirname(path.resolve(this.projectRoot, fromFile)) : this.projectRoot;
+    const relative = toPosix(path.relative(fromDir, target));
+    return relative.startsWith('.') ? relative : `./${relative}`;
+  }
+
+  /**
+   * Matches `@/*` against `@/components/Button`, returning the wildcard part
+   * ('' for exact patterns), or null.
+   */
+  private matchPattern(pattern: string, specifier: string): string | null {
+    const starIndex = pattern.indexOf('*');
+    if (starIndex === -1) {
+      return pattern === specifier ? '' : null;
+    }
+
+    const prefix = pattern.slice(0, starIndex);
+    const suffix = pattern.slice(starIndex + 1);
+    if (specifier.length >= prefix.length + suffix.length &&
+        specifier.startsWith(prefix) &&
+        specifier.endsWith(suffix)) {
+      return specifier.slice(prefix.length, specifier.length - suffix.length);
+    }
+    return null;
+  }
+
+  private applyPatternInReverse(pattern: string, substitution: string, target: string): string | null {
+    const base = this.compilerOptions.pathsBasePath as string | undefined ||
+      this.compilerOptions.baseUrl ||
+      this.projectRoot;
+    const substitutionPath = stripExtension(path.resolve(base, substitution));
+    const starIndex = substitutionPath.indexOf('*');
+
+    if (starIndex === -1) {
+      return substitutionPath === target ? pattern : null;
+    }
+
+    const prefix = substitutionPath.slice(0, starIndex);
+    const suffix = substitutionPath.slice(starIndex + 1);
+    if (!target.startsWith(prefix) || !target.endsWith(suffix)) {
+      return null;
+    }
+
+    const wildcard = toPosix(target.slice(prefix.length, target.length - suffix.length));
+    return pattern.replace('*', wildcard);
+  }
+}
+
+function stripExtension(filePath: string): string {
+  return filePath
+    .replace(/(\.d)?\.(m|c)?(t|j)sx?$/, '')
+    .replace(/[\\/]index$/, '');
+}
+
+function isWithin(dir: string, target: string): boolean {
+  const relative = path.relative(dir, target);
+  return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
@@ -0,0 +1,220 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { CodeScanner } from './CodeScanner';
+import { PathAliasResolver } from './PathAliasResolver';
+import { CodeContext, FileChangeEvent, WatchOptions } from '../types';
+import { logger } from '../utils/Logger';
+
+/**
+ * Keeps a CodeContext in sync with the file system.
+ *
+ * Emits `change` for every applied delta and `batch` once per debounced flush
+ * with all deltas of that flush, after context.projectFiles has been updated.
+ * A change to a tsconfig or jsconfig emits `tsconfig` with its absolute path,
+ * after the project's shared PathAliasResolver has been dropped. After a
+ * change to a package.json, pnpm-workspace.yaml or tsconfig, the context's
+ * dependencies, tsConfig and workspaces are read again and `packages` is
+ * emitted with the context.
+ */
+export class ProjectWatcher extends EventEmitter {
+  private scanner: CodeScanner;
+  private context: CodeContext;
+  private projectRoot: string;
+  private debounceMs: number;
+  private watchers = new Map<string, fs.FSWatcher>();
+  private pendingPaths = new Set<string>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(scanner: CodeScanner, context: CodeContext, options: WatchOptions = {}) {
+    super();
+    this.scanner = scanner;
+    this.context = context;
+    this.projectRoot = scanner.getProjectRoot();
+    this.debounceMs = options.debounceMs ?? 50;
+  }
+
+  start(): void {
+    if (this.watchers.size > 0) {
+      return;
+    }
+
+    try {
+      this.addWatcher(this.projectRoot, true);
+    } catch (error) {
+      // Recursive fs.watch is unavailable on some platforms/Node versions
+      logger.scanner.debug('Recursive watch unavailable, watching directories individually', error);
+      this.watchDirectoryTree(this.projectRoot);
+    }
+
+    logger.scanner.info(`👀 Watching ${this.projectRoot} for changes`);
+  }
+
+  async close(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    this.pendingPaths.clear();
+
+    await this.flushing;
+  }
+
+  isWatching(): boolean {
+    return this.watchers.size > 0;
+  }
+
+  private addWatcher(dir: string, recursive: boolean): void {
+    const watcher = fs.watch(dir, { recursive }, (_eventType, fileName) => {
+      if (fileName) {
+        this.handleFsEvent(path.join(dir, fileName.toString()));
+      }
+    });
+
+    watcher.on('error', (error) => {
+      logger.scanner.warn(`Watcher error for ${dir}:`, error);
+      this.emit('error', error);
+    });
+
+    this.watchers.set(dir, watcher);
+  }
+
+  private watchDirectoryTree(dir: string): void {
+    if (this.watchers.has(dir) || this.scanner.isExcludedPath(dir, true)) {
+      return;
+    }
+
+    try {
+      this.addWatcher(dir, false);
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        if (entry.isDirectory()) {
+          this.watchDirectoryTree(path.join(dir, entry.name));
+        }
+      }
+    } catch (error) {
+      logger.scanner.debug(`Failed to watch directory ${dir}`, error);
+    }
+  }
+
+  private handleFsEvent(absolutePath: string): void {
+    this.pendingPaths.add(absolutePath);
+
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+    }
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flushing = this.flushing.then(() => this.flush());
+    }, this.debounceMs);
+  }
+
+  private async flush(): Promise<void> {
+    const paths = Array.from(this.pendingPaths);
+    this.pendingPaths.clear();
+
+    try {
+      const events = await this.collectEvents(paths);
+      if (events.length > 0) {
+        this.scanner.applyChanges(this.context, events);
+
+        for (const event of events) {
+          logger.scanner.debug(`File ${event.type}: ${event.path}`);
+          this.emit('change', event);
+        }
+        this.emit('batch', events);
+      }
+
+      const packagesChanged = paths.some(absolutePath =>
+        (this.scanner.isPackageFile(absolutePath) || PathAliasResolver.isConfigFile(absolutePath)) &&
+        !this.scanner.isExcludedPath(absolutePath)
+      );
+      if (packagesChanged) {
+        // Workspace packages may have been added, removed or renamed; their
+        // file lists come from the project files updated above
+        await this.scanner.refreshPackages(this.context);
+        this.emit('packages', this.context);
+      }
+    } catch (error) {
+      logger.scanner.error('Failed to apply file changes', error);
+      this.emit('error', error);
+    }
+  }
+
+  private async collectEvents(absolutePaths: string[]): Promise<FileChangeEvent[]> {
+    const configPaths = absolutePaths.filter(absolutePath =>
+      PathAliasResolver.isConfigFile(absolutePath) && !this.scanner.isExcludedPath(absolutePath)
+    );
+    if (configPaths.length > 0) {
+      // paths and baseUrl may have changed; the next compilation reads them again
+      PathAliasResolver.invalidate(this.projectRoot);
+      configPaths.forEach(configPath => this.emit('tsconfig', configPath));
+    }
+
+    if (absolutePaths.some(absolutePath => this.scanner.isIgnoreFile(absolutePath))) {
+      // Ignore rules changed; files may have entered or left the project
+      await this.scanner.reloadIgnoreFiles();
+      return await this.scanner.refreshProject({
+        ...this.context,
+        projectFiles: [...this.context.projectFiles]
+      });
+    }
+
+    const events: FileChangeEvent[] = [];
+
+    for (const absolutePath of absolutePaths) {
+      if (this.scanner.isExcludedPath(absolutePath)) {
+        continue;
+      }
+
+      const relativePath = path.relative(this.projectRoot, absolutePath);
+      const stats = await fs.promises.stat(absolutePath).catch(() => null);
+
+      if (stats?.isDirectory()) {
+        // A directory was created or moved in; let the scanner diff the tree
+        if (!this.watchers.has(this.projectRoot)) {
+          this.watchDirectoryTree(absolutePath);
+        }
+        events.push(...await this.scanner.refreshProject({
+          ...this.context,
+          projectFiles: [...this.context.projectFiles]
+        }));
+        continue;
+      }
+
+      if (!stats) {
+        const removed = this.context.projectFiles.filter(file =>
+          file.path === relativePath || file.path.startsWith(relativePath + path.sep)
+        );
+        events.push(...removed.map(file => ({ type: 'unlink' as const, path: file.path })));
+        continue;
+      }
+
+      if (!this.scanner.isSourceFile(absolutePath)) {
+        continue;
+      }
+
+      const existing = this.context.projectFiles.find(file => file.path === relativePath);
+      const file = await this.scanner.readProjectFile(absolutePath);
+      if (file && file.content !== existing?.content) {
+        events.push({ type: existing ? 'change' : 'add', path: relativePath, file });
+      }
+    }
+
+    return this.dedupe(events);
+  }
+
+  private dedupe(events: FileChangeEvent[]): FileChangeEvent[] {
+    const byPath = new Map<string, FileChangeEvent>();
+    for (const event of events) {
+      byPath.set(event.path, event);
+    }
+    return Array.from(byPath.values());
+  }
+}
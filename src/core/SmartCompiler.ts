@@ -1,8 +1,44 @@
 import * as esbuild from 'esbuild';
 import * as path from 'path';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
 import { DependencyResolver, ImportInfo } from './DependencyResolver';
+import { CompilationCache, getBundleInputs } from './CompilationCache';
 import { logger } from '../utils/Logger';
-import { CodeContext, CompilationResult } from '../types';
+import { extractInlineSourceMap } from '../utils/SourceMapper';
+import { fromEsbuildError, fromEsbuildMessage, formatDiagnostics } from '../utils/Diagnostics';
+import { CSS_IN_JS_PACKAGES } from '../preview/StyleCollectors';
+import { PREVIEW_CONFIG_EXPORT } from '../preview/Decorators';
+import { CodeContext, CompilationResult, CacheOptions } from '../types';
+
+// 输出格式也是缓存key的一部分，格式变化后旧的缓存不会被使用
+const OUTPUT_FORMAT: esbuild.Format = 'cjs';
+
+// 图片和字体，默认以data URL内联
+const ASSET_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.avif', '.ico', '.bmp', '.svg', '.woff', '.woff2', '.ttf', '.otf', '.eot'];
+const ASSET_FILTER = new RegExp(`(${ASSET_EXTENSIONS.map(ext => `\\${ext}`).join('|')})$`);
+const CSS_SOURCE_MAP_COMMENT_REGEX = /\/\*# sourceMappingURL=\S+ \*\/\s*$/;
+
+// React必须和渲染用的ReactDOMServer是同一个实例，不打包进代码
+function isReactImport(specifier: string): boolean {
+  return /^react(-dom)?(\/|$)/.test(specifier);
+}
+
+// CSS-in-JS库也不打包，IsolatedRenderer从代码使用的同一个实例中收集样式
+function isCssInJsImport(specifier: string): boolean {
+  return CSS_IN_JS_PACKAGES.some(name => specifier === name || specifier.startsWith(`${name}/`));
+}
+
+// Sass插件用到的sass包API，sass由项目自己安装，在运行时加载
+interface SassModule {
+  compile(path: string, options: { loadPaths: string[]; sourceMap?: boolean }): SassCompileResult;
+}
+
+interface SassCompileResult {
+  css: string;
+  sourceMap?: Record<string, unknown>;
+  loadedUrls: URL[];
+}
 
 export interface SmartCompileOptions {
   code: string;
@@ -10,21 +46,53 @@ export interface SmartCompileOptions {
   mockProps?: Record<string, any>;
   additionalImports?: ImportInfo[];
   wrapComponent?: boolean;
+  /**
+   * How imported images and fonts end up in the bundle: inlined as data URLs
+   * ('inline', the default), or as their path from the project root ('url'),
+   * for the preview server to serve.
+   */
+  assets?: 'inline' | 'url';
 }
 
 export class SmartCompiler {
   private dependencyResolver: DependencyResolver;
   private codeContext: CodeContext;
   private projectRoot: string;
+  private cache: CompilationCache | null;
 
-  constructor(projectRoot: string, codeContext: CodeContext) {
+  constructor(projectRoot: string, codeContext: CodeContext, cacheOptions?: CacheOptions) {
     this.projectRoot = projectRoot;
     this.codeContext = codeContext;
     this.dependencyResolver = new DependencyResolver(projectRoot);
+    this.dependencyResolver.setWorkspaces(codeContext.workspaces);
+    this.cache = CompilationCache.forProject(projectRoot, cacheOptions);
   }
 
   async compile(options: SmartCompileOptions): Promise<CompilationResult> {
     try {
+      // 0. 命中缓存时跳过依赖分析和esbuild（依赖图中的文件变化会使缓存失效）
+      const jsxImportSource = this.codeContext.tsConfig?.compilerOptions?.jsxImportSource || 'react';
+      const cacheKey = CompilationCache.createKey(
+        'smart',
+        OUTPUT_FORMAT,
+        jsxImportSource,
+        this.codeContext.previewConfig,
+        options,
+        this.codeContext.dependencies
+      );
+      const cached = await this.cache?.get(cacheKey);
+      if (cached) {
+        return {
+          success: true,
+          code: cached.code,
+          css: cached.css,
+          warnings: cached.warnings,
+          diagnostics: cached.diagnostics,
+          sourceMap: extractInlineSourceMap(cached.code),
+          cache: this.cache!.getStats(cacheKey, true)
+        };
+      }
+
       // 1. 分析代码的依赖
       const depContext = await this.dependencyResolver.analyzeDependencies(
         options.code,
@@ -36,7 +104,8 @@ export class SmartCompiler {
       if (depContext.missingIdentifiers.size > 0) {
         const suggestions = await this.dependencyResolver.suggestImportsForIdentifiers(
           depContext.missingIdentifiers,
-          this.codeContext.projectFiles
+          this.codeContext.projectFiles,
+          options.filePath
         );
 
         // 选择最可能的imports
@@ -57,44 +126,79 @@ export class SmartCompiler {
       });
 
       // 4. 使用esbuild编译
+      const sourceFile = options.filePath
+        ? path.relative(this.projectRoot, path.resolve(this.projectRoot, options.filePath))
+        : 'snippet.tsx';
       const result = await esbuild.build({
         stdin: {
           contents: fullCode,
           loader: 'tsx',
-          resolveDir: options.filePath ? path.dirname(options.filePath) : this.projectRoot
+          resolveDir: options.filePath ? path.dirname(options.filePath) : this.projectRoot,
+          sourcefile: sourceFile
         },
+        absWorkingDir: path.resolve(this.projectRoot),
+        // import的CSS作为单独的输出文件；outdir与工作目录相同，source map中的路径不变
+        outdir: path.resolve(this.projectRoot),
+        logLevel: 'silent', // 错误和警告以diagnostics返回
         bundle: true,
-        format: 'esm',
+        metafile: true,
+        sourcemap: 'inline',
+        // CommonJS，由IsolatedRenderer在每次渲染的上下文中执行
+        format: OUTPUT_FORMAT,
         platform: 'browser',
         jsx: 'automatic',
-        jsxImportSource: 'react',
+        // 与项目的tsconfig一致，例如Emotion的css prop需要@emotion/react的JSX运行时
+        jsxImportSource,
         write: false,
+        // .module.css默认使用local-css，类名映射由esbuild生成
+        loader: options.assets === 'url'
+          ? {}
+          : Object.fromEntries(ASSET_EXTENSIONS.map(ext => [ext, 'dataurl' as esbuild.Loader])),
         plugins: [
+          ...(options.assets === 'url' ? [this.createAssetUrlPlugin()] : []),
+          this.createSassPlugin(),
           this.createResolvePlugin(depContext.resolvedModules)
         ],
-        external: ['react-dom/client'], // 保持某些模块为外部依赖
         define: {
           'process.env.NODE_ENV': '"development"'
         }
       });
 
       if (result.errors.length > 0) {
+        const diagnostics = fromEsbuildError(result);
         return {
           success: false,
-          error: result.errors.map(e => e.text).join('\n')
+          error: formatDiagnostics(diagnostics),
+          diagnostics
         };
       }
 
+      const code = result.outputFiles!.find(file => file.path.endsWith('.js'))!.text;
+      const cssFile = result.outputFiles!.find(file => file.path.endsWith('.css'));
+      const css = cssFile?.text.replace(CSS_SOURCE_MAP_COMMENT_REGEX, '').trim();
+      const warnings = result.warnings.map(w => w.text);
+      const diagnostics = result.warnings.map(w => fromEsbuildMessage(w, 'warning'));
+      if (this.cache && result.metafile) {
+        const inputs = getBundleInputs(result.metafile, path.resolve(this.projectRoot), sourceFile);
+        await this.cache.set(cacheKey, { code, css, warnings, diagnostics }, inputs);
+      }
+
       return {
         success: true,
-        code: result.outputFiles![0].text,
-        warnings: result.warnings.map(w => w.text)
+        code,
+        css,
+        warnings,
+        diagnostics,
+        sourceMap: extractInlineSourceMap(code),
+        cache: this.cache?.getStats(cacheKey, false)
       };
     } catch (error) {
       logger.compiler.error('Compilation failed', error);
+      const diagnostics = fromEsbuildError(error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : String(error)
+        error: formatDiagnostics(diagnostics),
+        diagnostics
       };
     }
   }
@@ -135,50 +239,47 @@ export class SmartCompiler {
 
     // 检测组件并包装
     let componentCode = options.code;
+    let previewConfigExport = '';
     if (options.wrapComponent !== false) {
       componentCode = this.wrapComponentCode(options.code, options.mockProps);
+      // 项目的预览配置与代码一起打包，它的decorators由IsolatedRenderer应用
+      if (this.codeContext.previewConfig) {
+        const configPath = path.resolve(this.projectRoot, this.codeContext.previewConfig);
+        previewConfigExport = `
+import ${PREVIEW_CONFIG_EXPORT} from ${JSON.stringify(configPath)};
+export { ${PREVIEW_CONFIG_EXPORT} };`;
+      }
     }
 
-    return `
-${importStatements}
+    // import会被提升，放在代码之后可以让source map中的行号与代码片段一致
+    return `${componentCode}
 
-${componentCode}
+${importStatements}${previewConfigExport}
 `;
   }
 
   private generateImportStatement(imp: ImportInfo): string {
-    const specifierParts: string[] = [];
-
-    for (const spec of imp.specifiers) {
-      if (spec.isDefault) {
-        specifierParts.unshift(spec.name);
-      } else if (spec.isNamespace) {
-        specifierParts.push(`* as ${spec.name}`);
-      } else if (spec.alias) {
-        specifierParts.push(`${spec.name} as ${spec.alias}`);
-      } else {
-        specifierParts.push(spec.name);
-      }
-    }
-
     const defaultImport = imp.specifiers.find(s => s.isDefault);
     const namedImports = imp.specifiers.filter(s => !s.isDefault && !s.isNamespace);
     const namespaceImport = imp.specifiers.find(s => s.isNamespace);
+    const formatNamed = (s: ImportInfo['specifiers'][number]) =>
+      `${s.isTypeOnly ? 'type ' : ''}${s.alias ? `${s.name} as ${s.alias}` : s.name}`;
 
     let importClause = '';
     if (defaultImport) {
       importClause = defaultImport.name;
       if (namedImports.length > 0) {
-        importClause += `, { ${namedImports.map(s => 
-          s.alias ? `${s.name} as ${s.alias}` : s.name
-        ).join(', ')} }`;
+        importClause += `, { ${namedImports.map(formatNamed).join(', ')} }`;
       }
     } else if (namespaceImport) {
       importClause = `* as ${namespaceImport.name}`;
     } else if (namedImports.length > 0) {
-      importClause = `{ ${namedImports.map(s => 
-        s.alias ? `${s.name} as ${s.alias}` : s.name
-      ).join(', ')} }`;
+      importClause = `{ ${namedImports.map(formatNamed).join(', ')} }`;
+    }
+
+    // 只为副作用导入的模块（例如样式表）
+    if (!importClause) {
+      return `import '${imp.module}';`;
     }
 
     return `import ${importClause} from '${imp.module}';`;
@@ -194,51 +295,140 @@ ${componentCode}
       return code;
     }
 
-    // 生成mock props
+    // 生成mock props，渲染器传入的props覆盖它们；渲染错误由IsolatedRenderer的错误边界统一处理
     const propsJson = mockProps ? JSON.stringify(mockProps, null, 2) : '{}';
 
-    return `
-${code}
+    return `${code}
 
 // Auto-generated preview wrapper
-export default function PreviewWrapper() {
+export default function PreviewWrapper(props) {
   const mockProps = ${propsJson};
-  
-  try {
-    return <${componentName} {...mockProps} />;
-  } catch (error) {
-    return (
-      <div style={{ 
-        color: 'red', 
-        padding: '20px', 
-        border: '1px solid red',
-        borderRadius: '4px',
-        backgroundColor: '#ffebee'
-      }}>
-        <h3>Component Error</h3>
-        <pre>{error.message}</pre>
-      </div>
-    );
-  }
+  return <${componentName} {...mockProps} {...props} />;
 }
+PreviewWrapper.previewName = '${componentName}';
 `;
   }
 
+  /**
+   * 图片和字体替换为相对项目根目录的URL，由预览服务器提供
+   */
+  private createAssetUrlPlugin(): esbuild.Plugin {
+    const projectRoot = path.resolve(this.projectRoot);
+
+    return {
+      name: 'asset-url',
+      setup(build) {
+        build.onResolve({ filter: ASSET_FILTER }, async (args) => {
+          if (args.pluginData?.assetUrl) {
+            return null;
+          }
+
+          // 先按正常规则解析（包括别名），得到文件的实际位置
+          const resolved = await build.resolve(args.path, {
+            kind: args.kind,
+            importer: args.importer,
+            resolveDir: args.resolveDir,
+            pluginData: { assetUrl: true }
+          });
+          if (resolved.errors.length > 0) {
+            return { errors: resolved.errors };
+          }
+
+          const url = '/' + path.relative(projectRoot, resolved.path).split(path.sep).join('/');
+          // CSS中的url()保持为URL，JS中的import得到URL字符串
+          return args.kind === 'url-token'
+            ? { path: url, external: true }
+            : { path: url, namespace: 'asset-url' };
+        });
+
+        build.onLoad({ filter: /.*/, namespace: 'asset-url' }, (args) => ({
+          contents: `export default ${JSON.stringify(args.path)};`,
+          loader: 'js'
+        }));
+      }
+    };
+  }
+
+  /**
+   * 使用项目自己安装的sass编译.scss/.sass
+   */
+  private createSassPlugin(): esbuild.Plugin {
+    const projectRequire = createRequire(path.join(path.resolve(this.projectRoot), 'package.json'));
+
+    return {
+      name: 'sass',
+      setup(build) {
+        build.onLoad({ filter: /\.s[ac]ss$/ }, (args) => {
+          let sass: SassModule;
+          try {
+            sass = projectRequire('sass') as SassModule;
+          } catch {
+            return {
+              errors: [{ text: `Cannot compile ${path.basename(args.path)}: install "sass" in the project to import Sass files` }]
+            };
+          }
+
+          const result = sass.compile(args.path, { loadPaths: [path.dirname(args.path)] });
+          return {
+            contents: result.css,
+            loader: /\.module\.s[ac]ss$/.test(args.path) ? 'local-css' : 'css',
+            resolveDir: path.dirname(args.path),
+            watchFiles: result.loadedUrls
+              .filter(url => url.protocol === 'file:')
+              .map(url => fileURLToPath(url))
+          };
+        });
+      }
+    };
+  }
+
   private createResolvePlugin(resolvedModules: Map<string, string>): esbuild.Plugin {
+    const dependencyResolver = this.dependencyResolver;
+    const aliasResolver = dependencyResolver.getAliasResolver();
+    const hasRootDirs = !!aliasResolver.getCompilerOptions().rootDirs?.length;
+
     return {
       name: 'smart-resolve',
       setup(build) {
         // 处理已解析的模块
         build.onResolve({ filter: /.*/ }, (args) => {
-          if (resolvedModules.has(args.path)) {
+          const fromSnippet = !args.importer || args.importer === '<stdin>';
+
+          // React和CSS-in-JS库保持为外部依赖，由IsolatedRenderer提供
+          if (isReactImport(args.path) || isCssInJsImport(args.path)) {
+            return { path: args.path, external: true };
+          }
+
+          // resolvedModules来自代码片段本身，只用于片段中的import
+          if (fromSnippet && resolvedModules.has(args.path)) {
             return {
               path: resolvedModules.get(args.path)!,
               namespace: 'file'
             };
           }
 
+          const importer = fromSnippet ? path.join(args.resolveDir, 'index.ts') : args.importer;
+
+          // 相对路径只在配置了rootDirs时需要额外处理
+          if (args.path.startsWith('.')) {
+            const resolved = hasRootDirs ? aliasResolver.resolve(args.path, importer) : null;
+            return resolved ? { path: resolved } : null;
+          }
+
           // 处理node_modules
-          if (!args.path.startsWith('.') && !args.path.startsWith('/')) {
+          if (!args.path.startsWith('/')) {
+            // 工作区内的包直接使用源码，而不是构建产物
+            const workspaceSource = dependencyResolver.resolveWorkspaceImport(args.path);
+            if (workspaceSource) {
+              return { path: workspaceSource };
+            }
+
+            // tsconfig的paths/baseUrl别名
+            const aliased = aliasResolver.resolve(args.path, importer);
+            if (aliased) {
+              return { path: aliased };
+            }
+
             try {
               const resolved = require.resolve(args.path, {
                 paths: [args.resolveDir]
@@ -0,0 +1,163 @@
+import * as ts from 'typescript';
+import * as path from 'path';
+import { ComponentDetector } from './ComponentDetector';
+import { getComponentPropsType, MockPropsGenerator } from './MockPropsGenerator';
+import { fromTsDiagnostic } from '../utils/Diagnostics';
+import { Diagnostic, MockPropsOptions } from '../types';
+
+export interface SnippetCheckOptions {
+  /** Where the snippet would live, relative to the project root */
+  fileName?: string;
+  /** Only report diagnostics on the first this many lines (the snippet itself, not appended imports) */
+  lineCount?: number;
+}
+
+export interface SnippetPropsOptions extends MockPropsOptions {
+  /** Where the snippet would live, relative to the project root */
+  fileName?: string;
+  /** The component to generate props for. Defaults to the default export, then the first declaration */
+  componentName?: string;
+}
+
+/**
+ * Type-checks a snippet as a virtual file of the project's program, so props
+ * mismatches, missing required props and unknown components are reported
+ * the way the editor would report them.
+ */
+export class SnippetTypeChecker {
+  private static shared = new Map<string, SnippetTypeChecker>();
+
+  private projectRoot: string;
+  private getBaseProgram: () => ts.Program | undefined;
+  private ownDetector?: ComponentDetector;
+  private lastProgram?: ts.Program;
+
+  /**
+   * @param getBaseProgram the program to check against, typically
+   * ComponentDetector.getProgram. Without it one is built on first use.
+   */
+  constructor(projectRoot: string, getBaseProgram?: () => ts.Program | undefined) {
+    this.projectRoot = path.resolve(projectRoot);
+    this.getBaseProgram = getBaseProgram || (() => undefined);
+  }
+
+  static forProject(projectRoot: string): SnippetTypeChecker {
+    const root = path.resolve(projectRoot);
+    let checker = SnippetTypeChecker.shared.get(root);
+    if (!checker) {
+      checker = new SnippetTypeChecker(root);
+      SnippetTypeChecker.shared.set(root, checker);
+    }
+    return checker;
+  }
+
+  check(code: string, options: SnippetCheckOptions = {}): Diagnostic[] {
+    const displayName = options.fileName || 'snippet.tsx';
+    const { program, sourceFile } = this.createProgram(code, displayName);
+    const diagnostics = [
+      ...program.getSyntacticDiagnostics(sourceFile),
+      ...program.getSemanticDiagnostics(sourceFile)
+    ];
+
+    return diagnostics
+      .filter(diagnostic => options.lineCount === undefined || diagnostic.start === undefined ||
+        sourceFile.getLineAndCharacterOfPosition(diagnostic.start).line < options.lineCount)
+      .map(diagnostic => fromTsDiagnostic(diagnostic, displayName));
+  }
+
+  /**
+   * Mock props for the component a snippet previews, generated from its
+   * props type. Empty when the snippet has no component with props.
+   */
+  generateMockProps(code: string, options: SnippetPropsOptions = {}): Record<string, unknown> {
+    const { program, sourceFile } = this.createProgram(code, options.fileName || 'snippet.tsx');
+    const checker = program.getTypeChecker();
+    const component = this.findComponent(checker, sourceFile, options.componentName);
+    const propsType = component && getComponentPropsType(checker, component);
+
+    return propsType ? new MockPropsGenerator(checker, options).generateProps(propsType) : {};
+  }
+
+  private createProgram(code: string, fileName: string): { program: ts.Program; sourceFile: ts.SourceFile } {
+    const baseProgram = this.getBaseProgram() || this.getOwnProgram();
+    const snippetPath = path.resolve(this.projectRoot, fileName);
+    const compilerOptions: ts.CompilerOptions = {
+      ...baseProgram.getCompilerOptions(),
+      jsx: baseProgram.getCompilerOptions().jsx ?? ts.JsxEmit.ReactJSX
+    };
+
+    const snippetFile = ts.createSourceFile(
+      snippetPath,
+      code,
+      compilerOptions.target ?? ts.ScriptTarget.Latest,
+      true,
+      /\.(t|j)s$/.test(snippetPath) ? ts.ScriptKind.TS : ts.ScriptKind.TSX
+    );
+
+    // Every other file comes from the base program, or the previous check's
+    // program for files outside the project (lib.d.ts, @types)
+    const previousProgram = this.lastProgram;
+    const host = ts.createCompilerHost(compilerOptions);
+    const { getSourceFile, fileExists, readFile } = host;
+    host.getSourceFile = (fileName, languageVersion, onError, shouldCreateNewSourceFile) => {
+      if (path.resolve(fileName) === snippetPath) {
+        return snippetFile;
+      }
+      return baseProgram.getSourceFile(fileName) ||
+        previousProgram?.getSourceFile(fileName) ||
+        getSourceFile.call(host, fileName, languageVersion, onError, shouldCreateNewSourceFile);
+    };
+    host.fileExists = fileName => path.resolve(fileName) === snippetPath || fileExists.call(host, fileName);
+    host.readFile = fileName => path.resolve(fileName) === snippetPath ? code : readFile.call(host, fileName);
+
+    const rootNames = baseProgram.getRootFileNames()
+      .filter(fileName => path.resolve(fileName) !== snippetPath)
+      .concat(snippetPath);
+
+    const program = ts.createProgram({
+      rootNames,
+      options: compilerOptions,
+      host,
+      oldProgram: previousProgram || baseProgram
+    });
+    this.lastProgram = program;
+
+    return { program, sourceFile: program.getSourceFile(snippetPath)! };
+  }
+
+  /**
+   * The named component, else the default export, else the first top-level
+   * declaration, which is the one SmartCompiler's preview wrapper renders.
+   */
+  private findComponent(checker: ts.TypeChecker, sourceFile: ts.SourceFile, componentName?: string): ts.Node | undefined {
+    const declarations = sourceFile.statements.flatMap((statement): ts.Node[] => {
+      if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name) {
+        return [statement];
+      }
+      return ts.isVariableStatement(statement) ? [...statement.declarationList.declarations] : [];
+    });
+    const nameOf = (node: ts.Node) => (node as ts.NamedDeclaration).name?.getText();
+
+    if (componentName) {
+      return declarations.find(node => nameOf(node) === componentName);
+    }
+
+    const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+    const defaultExport = moduleSymbol && checker.getExportsOfModule(moduleSymbol).find(symbol => symbol.name === 'default');
+    if (defaultExport) {
+      const symbol = defaultExport.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(defaultExport) : defaultExport;
+      const declaration = symbol.valueDeclaration ?? symbol.declarations?.[0];
+      // `export default memo(Card)` is typed by its expression
+      return declaration && ts.isExportAssignment(declaration) ? declaration.expression : declaration;
+    }
+
+    return declarations[0];
+  }
+
+  private getOwnProgram(): ts.Program {
+    if (!this.ownDetector) {
+      this.ownDetector = new ComponentDetector(this.projectRoot);
+    }
+    return this.ownDetector.getProgram();
+  }
+}
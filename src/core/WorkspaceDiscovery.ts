@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { glob } from 'glob';
+import YAML from 'yaml';
+import { logger } from '../utils/Logger';
+
+/**
+ * Finds the package directories of a yarn/npm (`workspaces` in package.json)
+ * or pnpm (`pnpm-workspace.yaml`) workspace.
+ */
+export class WorkspaceDiscovery {
+  private projectRoot: string;
+
+  constructor(projectRoot: string) {
+    this.projectRoot = projectRoot;
+  }
+
+  /**
+   * Returns package directories relative to the project root, or an empty
+   * list when the project isn't a workspace.
+   */
+  async findPackageRoots(): Promise<string[]> {
+    const patterns = [
+      ...await this.readPackageJsonWorkspaces(),
+      ...await this.readPnpmWorkspaces()
+    ];
+
+    const includes = patterns.filter(pattern => !pattern.startsWith('!'));
+    const excludes = patterns
+      .filter(pattern => pattern.startsWith('!'))
+      .map(pattern => `${trimSlashes(pattern.slice(1))}/package.json`);
+
+    if (includes.length === 0) {
+      return [];
+    }
+
+    const manifests = await glob(includes.map(pattern => `${trimSlashes(pattern)}/package.json`), {
+      cwd: this.projectRoot,
+      ignore: ['**/node_modules/**', ...excludes]
+    });
+
+    const roots = manifests
+      .map(manifest => path.dirname(manifest))
+      .filter(root => root !== '.');
+
+    return Array.from(new Set(roots)).sort();
+  }
+
+  private async readPackageJsonWorkspaces(): Promise<string[]> {
+    const content = await this.readFile('package.json');
+    if (!content) {
+      return [];
+    }
+
+    try {
+      const { workspaces } = JSON.parse(content);
+      if (Array.isArray(workspaces)) {
+        return workspaces;
+      }
+      // Yarn classic also accepts { packages: [...], nohoist: [...] }
+      if (Array.isArray(workspaces?.packages)) {
+        return workspaces.packages;
+      }
+    } catch (error) {
+      logger.scanner.debug('Could not parse package.json workspaces', error);
+    }
+
+    return [];
+  }
+
+  private async readPnpmWorkspaces(): Promise<string[]> {
+    const content = await this.readFile('pnpm-workspace.yaml');
+    if (!content) {
+      return [];
+    }
+
+    try {
+      const packages = YAML.parse(content)?.packages;
+      return Array.isArray(packages) ? packages.filter(p => typeof p === 'string') : [];
+    } catch (error) {
+      logger.scanner.warn('Could not parse pnpm-workspace.yaml:', error);
+      return [];
+    }
+  }
+
+  private async readFile(fileName: string): Promise<string | null> {
+    try {
+      const content = await fs.promises.readFile(path.join(this.projectRoot, fileName), 'utf-8');
+      return typeof content === 'string' ? content : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+function trimSlashes(pattern: string): string {
+  return pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+}
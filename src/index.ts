@@ -1,10 +1,12 @@
 import { CodeScanner } from './core/CodeScanner';
+import { ProjectWatcher } from './core/ProjectWatcher';
 import { JSXCompiler } from './core/JSXCompiler';
 import { ComponentDetector, ComponentInfo } from './core/ComponentDetector';
+import { SnippetTypeChecker } from './core/SnippetTypeChecker';
 import { LivePreviewServer, PreviewServerConfig } from './preview/LivePreviewServer';
 import { OpenAIProvider } from './ai/OpenAIProvider';
 import { OllamaProvider } from './ai/OllamaProvider';
-import { Executor, SimpleExecutor } from './runtime/Executor';
+import { Executor } from './runtime/Executor';
 import { logger } from './utils/Logger';
 import {
   RenderConfig,
@@ -12,7 +14,11 @@ import {
   RenderResult,
   PartRenderOptions,
   AIModelResponse,
-  CodeContext
+  CodeContext,
+  FileChangeEvent,
+  WatchOptions,
+  ValidateOptions,
+  ValidationResult
 } from './types';
 
 export class PartRender {
@@ -20,11 +26,19 @@ export class PartRender {
   private codeContext: CodeContext | null = null;
   private aiProvider: OpenAIProvider | OllamaProvider | null = null;
   private componentDetector: ComponentDetector | null = null;
+  private typeChecker: SnippetTypeChecker;
   private components: ComponentInfo[] = [];
   private previewServer: LivePreviewServer | null = null;
+  private scanner: CodeScanner | null = null;
+  private watcher: ProjectWatcher | null = null;
 
   constructor(config: RenderConfig) {
     this.config = config;
+    // Checks snippets against the detector's program, so the project is parsed once
+    this.typeChecker = new SnippetTypeChecker(
+      config.projectRoot,
+      () => this.componentDetector?.getProgram()
+    );
     
     // Configure logger if settings provided
     if (config.logger) {
@@ -46,8 +60,8 @@ export class PartRender {
   }
 
   async initialize(): Promise<void> {
-    const scanner = new CodeScanner(this.config.projectRoot);
-    this.codeContext = await scanner.scanProject();
+    this.scanner = new CodeScanner(this.config.projectRoot, this.config.scan);
+    this.codeContext = await this.scanner.scanProject();
     
     // Initialize component detector
     this.componentDetector = new ComponentDetector(this.config.projectRoot);
@@ -68,18 +82,22 @@ export class PartRender {
       throw new Error('Failed to initialize code context');
     }
 
-    const compiler = new JSXCompiler(this.codeContext);
+    const compiler = new JSXCompiler(this.codeContext, this.config.projectRoot, this.config.cache);
     const compilationResult = await compiler.compileJSXSnippet(snippet);
 
     if (!compilationResult.success || !compilationResult.code) {
       return {
         success: false,
-        error: compilationResult.error || 'Compilation failed'
+        error: compilationResult.error || 'Compilation failed',
+        diagnostics: compilationResult.diagnostics
       };
     }
 
-    const executor = this.createExecutor(options);
-    return await executor.executeCode(compilationResult.code);
+    const executor = this.createExecutor({
+      ...options,
+      async: options.async ?? compilationResult.topLevelAwait
+    });
+    return await executor.executeCode(compilationResult.code, compilationResult.sourceMap);
   }
 
   async generateCodeWithAI(prompt: string, context?: string): Promise<AIModelResponse> {
@@ -116,7 +134,7 @@ export class PartRender {
     return await this.aiProvider.optimizeCode(code, requirements);
   }
 
-  async validateJSX(code: string): Promise<{ valid: boolean; errors?: string[] }> {
+  async validateJSX(code: string, options: ValidateOptions = {}): Promise<ValidationResult> {
     if (!this.codeContext) {
       await this.initialize();
     }
@@ -125,8 +143,13 @@ export class PartRender {
       throw new Error('Failed to initialize code context');
     }
 
-    const compiler = new JSXCompiler(this.codeContext);
-    return await compiler.validateJSX(code);
+    const compiler = new JSXCompiler(
+      this.codeContext,
+      this.config.projectRoot,
+      this.config.cache,
+      this.typeChecker
+    );
+    return await compiler.validateJSX(code, options);
   }
 
   getProjectInfo(): {
@@ -149,7 +172,12 @@ export class PartRender {
   }
 
   async refreshContext(): Promise<void> {
-    await this.initialize();
+    if (this.scanner && this.codeContext && this.componentDetector) {
+      const events = await this.scanner.refreshProject(this.codeContext);
+      this.applyFileChanges(events);
+    } else {
+      await this.initialize();
+    }
     
     // Update preview server if running
     if (this.previewServer && this.codeContext) {
@@ -158,6 +186,56 @@ export class PartRender {
     }
   }
 
+  /**
+   * Starts watching the project and keeps the code context and detected
+   * components up to date. Listen to the returned watcher's `change` and
+   * `batch` events to react to file deltas.
+   */
+  async watch(options?: WatchOptions): Promise<ProjectWatcher> {
+    if (this.watcher) {
+      return this.watcher;
+    }
+
+    if (!this.codeContext) {
+      await this.initialize();
+    }
+
+    this.watcher = new ProjectWatcher(this.scanner!, this.codeContext!, options);
+    this.watcher.on('batch', (events: FileChangeEvent[]) => {
+      this.applyFileChanges(events);
+
+      if (this.previewServer && this.codeContext) {
+        this.previewServer.updateComponents(this.components);
+        this.previewServer.updateCodeContext(this.codeContext);
+      }
+    });
+    this.watcher.start();
+
+    return this.watcher;
+  }
+
+  async unwatch(): Promise<void> {
+    if (this.watcher) {
+      await this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  private applyFileChanges(events: FileChangeEvent[]): void {
+    if (!this.componentDetector || events.length === 0) {
+      return;
+    }
+
+    const affectedPaths = new Set(events.map(event => event.path));
+    const updatedComponents = this.componentDetector.updateFiles(events);
+
+    this.components = this.components
+      .filter(component => !affectedPaths.has(component.filePath))
+      .concat(updatedComponents);
+
+    logger.core.info(`🔄 Applied ${events.length} file changes, ${this.components.length} components`);
+  }
+
   async startPreviewServer(config?: Partial<PreviewServerConfig>): Promise<void> {
     if (!this.codeContext) {
       await this.initialize();
@@ -214,13 +292,12 @@ export class PartRender {
     return component;
   }
 
-  private createExecutor(options: PartRenderOptions): Executor | SimpleExecutor {
-    try {
-      return new Executor(options);
-    } catch (error) {
-      logger.executor.warn('VM2 not available, falling back to simple executor', error);
-      return new SimpleExecutor(options);
-    }
+  private createExecutor(options: PartRenderOptions): Executor {
+    return new Executor({
+      ...options,
+      timeout: options.timeout ?? this.config.timeout,
+      projectRoot: options.projectRoot ?? this.config.projectRoot
+    });
   }
 
   private buildAIContext(additionalContext?: string): string {
@@ -248,12 +325,19 @@ export class PartRender {
 
 export * from './types';
 export { CodeScanner } from './core/CodeScanner';
+export { ProjectWatcher } from './core/ProjectWatcher';
 export { JSXCompiler } from './core/JSXCompiler';
+export { CompilationCache } from './core/CompilationCache';
+export { SnippetTypeChecker } from './core/SnippetTypeChecker';
 export { ComponentDetector, ComponentInfo } from './core/ComponentDetector';
 export { LivePreviewServer, PreviewServerConfig } from './preview/LivePreviewServer';
+export { InteractionError } from './preview/Interactions';
+export { decorateComponent } from './preview/Decorators';
 export { OpenAIProvider } from './ai/OpenAIProvider';
 export { OllamaProvider } from './ai/OllamaProvider';
 export { Executor, SimpleExecutor } from './runtime/Executor';
+export { ModuleLoader, ModuleBlockedError } from './runtime/ModuleLoader';
+export { TimerLoopError } from './runtime/VirtualClock';
 export { logger, Logger, LogLevel, LogCategory } from './utils/Logger';
 
 export default PartRender;
\ No newline at end of file
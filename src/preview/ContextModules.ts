@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vm from 'vm';
+
+// Compiling react-dom takes longer than running it, and the compiled script
+// can be run in any number of contexts
+const scriptCache = new Map<string, vm.Script>();
+
+/**
+ * A CommonJS registry whose modules are evaluated inside a render's JSDOM
+ * context, so libraries that look at `window` or `document` when they load
+ * (react-dom, its scheduler) see that render's window rather than the host.
+ *
+ * Packages are resolved from part-render's own dependencies. Modules listed
+ * in `shared` are handed out as they are instead, which is how React itself
+ * stays the host instance the snippet and ReactDOMServer use.
+ */
+export class ContextModules {
+  private context: vm.Context;
+  private shared: Record<string, unknown>;
+  private loaded = new Map<string, { exports: unknown }>();
+
+  constructor(context: vm.Context, shared: Record<string, unknown> = {}) {
+    this.context = context;
+    this.shared = shared;
+  }
+
+  require(specifier: string, fromDirectory = __dirname): any {
+    if (Object.prototype.hasOwnProperty.call(this.shared, specifier)) {
+      return this.shared[specifier];
+    }
+    return this.load(require.resolve(specifier, { paths: [fromDirectory] }));
+  }
+
+  private load(filename: string): unknown {
+    const cached = this.loaded.get(filename);
+    if (cached) {
+      return cached.exports;
+    }
+
+    const module = { exports: {} as unknown };
+    this.loaded.set(filename, module);
+
+    const moduleFunction = getScript(filename).runInContext(this.context);
+    const dirname = path.dirname(filename);
+    moduleFunction.call(
+      module.exports,
+      module.exports,
+      (specifier: string) => this.require(specifier, dirname),
+      module,
+      filename,
+      dirname,
+      // Picks the same development or production build as the host's React
+      { env: { NODE_ENV: process.env.NODE_ENV } }
+    );
+    return module.exports;
+  }
+}
+
+function getScript(filename: string): vm.Script {
+  let script = scriptCache.get(filename);
+  if (!script) {
+    const source = fs.readFileSync(filename, 'utf8');
+    script = new vm.Script(
+      `(function (exports, require, module, __filename, __dirname, process) {${source}\n})`,
+      { filename }
+    );
+    scriptCache.set(filename, script);
+  }
+  return script;
+}
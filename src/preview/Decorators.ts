@@ -0,0 +1,31 @@
+import type { PreviewConfig } from '../types';
+
+/** The export under which SmartCompiler hands the project's preview config to the renderer */
+export const PREVIEW_CONFIG_EXPORT = '__partRenderPreviewConfig';
+
+/**
+ * Returns a component that renders `Component` inside its decorators from
+ * the preview config, or `Component` itself when it has none.
+ *
+ * Each layer's `Story` is created once and reads its props from a context,
+ * so re-renders keep the component mounted. React is a parameter because
+ * LivePreviewServer also serves this module to the preview page, where the
+ * page's own React has to be used.
+ */
+export function decorateComponent(React: any, Component: any, config: PreviewConfig | undefined, componentName: string): any {
+  const decorators = [
+    ...(config?.components?.[componentName]?.decorators || []),
+    ...(config?.decorators || [])
+  ];
+
+  return decorators.reduce((Inner, decorator) => {
+    const PropsContext = React.createContext({});
+    const Story = (overrides: Record<string, any>) =>
+      React.createElement(Inner, { ...React.useContext(PropsContext), ...overrides });
+    const Decorated = (props: Record<string, any>) =>
+      React.createElement(PropsContext.Provider, { value: props }, decorator(Story, { componentName, props }));
+    Story.displayName = 'Story';
+    Decorated.displayName = `Decorated(${componentName})`;
+    return Decorated;
+  }, Component);
+}
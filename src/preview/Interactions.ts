@@ -0,0 +1,105 @@
+import type { Interaction } from '../types';
+
+/** How long a waitFor step waits when it doesn't say */
+export const DEFAULT_WAIT_TIMEOUT = 1000;
+const WAIT_INTERVAL = 10;
+
+export class InteractionError extends Error {
+  readonly interaction: Interaction;
+
+  constructor(interaction: Interaction, message: string) {
+    super(`${interaction.type} "${interaction.selector}" failed: ${message}`);
+    this.name = 'InteractionError';
+    this.interaction = interaction;
+  }
+}
+
+export interface InteractionTarget {
+  /** The render's JSDOM window */
+  window: any;
+  /** React's act: updates and effects a step causes are flushed before it returns */
+  act: (callback: () => Promise<void>) => Promise<void>;
+  /** Lets ms pass on the render's clock, firing the timers that fall due */
+  wait: (ms: number) => Promise<void>;
+}
+
+/**
+ * Performs one user action on a mounted render, the way a browser would
+ * dispatch it, so React's event handlers, state updates and effects run.
+ */
+export async function performInteraction(target: InteractionTarget, interaction: Interaction): Promise<void> {
+  if (interaction.type === 'waitFor') {
+    await waitForSelector(target, interaction);
+    return;
+  }
+
+  const element = target.window.document.querySelector(interaction.selector);
+  if (!element) {
+    throw new InteractionError(interaction, 'no element matches the selector');
+  }
+
+  await target.act(async () => {
+    switch (interaction.type) {
+      case 'click':
+        // click() also runs default actions, like toggling a checkbox or submitting a form
+        element.click();
+        break;
+      case 'type':
+        typeInto(target.window, element, interaction);
+        break;
+      case 'submit':
+        submit(element, interaction);
+        break;
+    }
+  });
+}
+
+async function waitForSelector(target: InteractionTarget, interaction: Extract<Interaction, { type: 'waitFor' }>): Promise<void> {
+  const timeout = interaction.timeout ?? DEFAULT_WAIT_TIMEOUT;
+
+  for (let waited = 0; ; waited += WAIT_INTERVAL) {
+    if (target.window.document.querySelector(interaction.selector)) {
+      return;
+    }
+    if (waited >= timeout) {
+      throw new InteractionError(interaction, `no element matched within ${timeout}ms`);
+    }
+    await target.act(() => target.wait(WAIT_INTERVAL));
+  }
+}
+
+function typeInto(window: any, element: any, interaction: Extract<Interaction, { type: 'type' }>): void {
+  // React tracks the value it last rendered, so setting `value` directly would
+  // go unnoticed; the prototype's setter is what a real keystroke goes through
+  const setValue = findValueSetter(element);
+  if (!setValue) {
+    throw new InteractionError(interaction, `<${element.tagName.toLowerCase()}> does not take text input`);
+  }
+
+  element.focus();
+  for (const key of interaction.text) {
+    element.dispatchEvent(new window.KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+    setValue.call(element, element.value + key);
+    element.dispatchEvent(new window.InputEvent('input', { data: key, inputType: 'insertText', bubbles: true }));
+    element.dispatchEvent(new window.KeyboardEvent('keyup', { key, bubbles: true, cancelable: true }));
+  }
+  element.dispatchEvent(new window.Event('change', { bubbles: true }));
+}
+
+function submit(element: any, interaction: Interaction): void {
+  const form = element.tagName === 'FORM' ? element : element.closest('form');
+  if (!form) {
+    throw new InteractionError(interaction, 'the element is not a form or inside one');
+  }
+  form.requestSubmit();
+}
+
+function findValueSetter(element: any): ((value: string) => void) | undefined {
+  for (let prototype = Object.getPrototypeOf(element); prototype; prototype = Object.getPrototypeOf(prototype)) {
+    const descriptor = Object.getOwnPropertyDescriptor(prototype, 'value');
+    if (descriptor?.set) {
+      return descriptor.set;
+    }
+  }
+  return undefined;
+}
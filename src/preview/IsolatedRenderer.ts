@@ -1,6 +1,41 @@
+import * as vm from 'vm';
 import * as ReactDOMServer from 'react-dom/server';
-import { JSDOM } from 'jsdom';
+import { JSDOM, VirtualConsole } from 'jsdom';
 import { logger } from '../utils/Logger';
+import {
+  extractInlineSourceMap,
+  getLineOffset,
+  mapComponentStack,
+  mapRuntimeError,
+  MappedError,
+  SNIPPET_SOURCE_URL,
+  withSourceURL
+} from '../utils/SourceMapper';
+import { fromMappedError } from '../utils/Diagnostics';
+import { getPackageName, ModuleLoader } from '../runtime/ModuleLoader';
+import { CapturedConsole, createConsoleCapture } from '../runtime/ConsoleCapture';
+import { flushMicrotasks, RealTimers, SandboxTimers } from '../runtime/SandboxTimers';
+import { VirtualClock } from '../runtime/VirtualClock';
+import { NetworkInterceptor } from '../runtime/NetworkInterceptor';
+import { ContextModules } from './ContextModules';
+import { performInteraction } from './Interactions';
+import { DEFAULT_STREAMING_TIMEOUT, renderToChunks } from './StreamingRenderer';
+import { TailwindStyles } from './TailwindStyles';
+import { createStyleCollectors, StyleCollector } from './StyleCollectors';
+import { decorateComponent, PREVIEW_CONFIG_EXPORT } from './Decorators';
+import {
+  ClockOptions,
+  Diagnostic,
+  DiagnosticPhase,
+  Interaction,
+  LogEntry,
+  ModuleOptions,
+  NetworkOptions,
+  NetworkRequest,
+  StackFrame,
+  StreamingOptions,
+  TailwindSetup
+} from '../types';
 
 export interface RenderOptions {
   compiledCode: string;
@@ -8,88 +43,155 @@ export interface RenderOptions {
   props?: Record<string, any>;
   wrapper?: string;
   styles?: string;
+  /** CSS the compiled code imported, added after styles */
+  css?: string;
+  /** Generate Tailwind CSS for the classes in the rendered html */
+  tailwind?: TailwindSetup;
+  /** Defaults to the source map inlined in compiledCode */
+  sourceMap?: string;
+  /** Render against a virtual clock instead of real time */
+  clock?: boolean | ClockOptions;
+  /** Mocks answering fetch / XMLHttpRequest, in the code and on the window */
+  network?: NetworkOptions;
+  /**
+   * Hydrate the server markup in the window with react-dom/client, so
+   * effects run and state can change; the returned html is the live DOM.
+   * Implied by interactions.
+   */
+  mount?: boolean;
+  /** User actions to perform, in order, before the html is captured */
+  interactions?: Interaction[];
+  /** Render with renderToPipeableStream, waiting for Suspense boundaries to resolve */
+  streaming?: boolean | StreamingOptions;
 }
 
 export interface RenderResult {
   html: string;
   error?: string;
+  stack?: string;
+  frames?: StackFrame[];
+  diagnostics?: Diagnostic[];
+  logs?: LogEntry[];
+  requests?: NetworkRequest[];
   componentName?: string;
+  /** For render errors, the component stack from the failing component up, mapped to original sources */
+  componentStack?: string;
+  /** The streamed HTML in order, when streaming.chunks is set */
+  chunks?: string[];
+}
+
+interface ReactClient {
+  ReactDOMClient: any;
+  container: any;
+  act: (callback: () => unknown) => Promise<void>;
+  wait: (ms: number) => Promise<void>;
 }
 
 export class IsolatedRenderer {
-  private dom: JSDOM;
-  private window: any;
+  private projectRoot: string;
+  private modules: ModuleOptions;
+  // 正在渲染的DOM，dispose时一并关闭
+  private activeDoms = new Set<JSDOM>();
+  // 按Tailwind配置缓存，配置文件只加载一次
+  private tailwindStyles = new Map<string, TailwindStyles>();
+
+  constructor(projectRoot = process.cwd(), modules: ModuleOptions = {}) {
+    this.projectRoot = projectRoot;
+    this.modules = modules;
+  }
+
+  /**
+   * 每次渲染都有自己的JSDOM window作为执行上下文，window、document等只存在于
+   * 这个上下文中，不会写到Node的global上，多个渲染可以同时进行
+   */
+  private createDom(console: CapturedConsole, css?: string): JSDOM {
+    // jsdom自己的报错（未实现的API、事件处理中未捕获的错误）也记录到日志中
+    const virtualConsole = new VirtualConsole();
+    virtualConsole.on('jsdomError', (error: Error) => console.error(error.message));
+    // 导入的CSS放进窗口，组件里的getComputedStyle能看到它
+    const head = css ? `<head><style>${css}</style></head>` : '';
 
-  constructor() {
-    // 创建一个隔离的DOM环境
-    this.dom = new JSDOM('<!DOCTYPE html><html><body></body></html>', {
+    return new JSDOM(`<!DOCTYPE html><html>${head}<body><div id="root"></div></body></html>`, {
       url: 'http://localhost',
       pretendToBeVisual: true,
-      resources: 'usable'
+      runScripts: 'outside-only',
+      virtualConsole
     });
-    
-    this.window = this.dom.window;
-    
-    // 设置全局变量
-    this.setupGlobals();
-  }
-
-  private setupGlobals(): void {
-    // 模拟浏览器环境
-    (global as any).window = this.window;
-    (global as any).document = this.window.document;
-    (global as any).navigator = this.window.navigator;
-    (global as any).HTMLElement = this.window.HTMLElement;
-    (global as any).Element = this.window.Element;
-    (global as any).Node = this.window.Node;
-    (global as any).Event = this.window.Event;
-    (global as any).MouseEvent = this.window.MouseEvent;
-    (global as any).KeyboardEvent = this.window.KeyboardEvent;
-    
-    // React需要的全局对象
-    (global as any).requestAnimationFrame = (callback: Function) => {
-      return setTimeout(callback, 0);
-    };
-    (global as any).cancelAnimationFrame = clearTimeout;
   }
 
   async render(options: RenderOptions): Promise<RenderResult> {
+    // 构建完整的代码
+    const { code: wrappedCode, lineOffset } = this.wrapCode(options.compiledCode);
+    const sourceMap = options.sourceMap || extractInlineSourceMap(options.compiledCode);
+    const logs: LogEntry[] = [];
+    const clockOptions = options.clock === true ? {} : options.clock || undefined;
+    const streamingOptions = options.streaming === true ? {} : options.streaming || undefined;
+    let phase: DiagnosticPhase = 'runtime';
+    let timers: SandboxTimers | undefined;
+    let network: NetworkInterceptor | undefined;
+    let unmount: (() => Promise<void>) | undefined;
+    let styleCollectors: StyleCollector[] = [];
+    let componentStack: string | undefined;
+    let recordLogs = true;
+    // 组件渲染时的console调用也会被记录
+    const capturedConsole = createConsoleCapture(entry => {
+      if (recordLogs) {
+        logs.push(entry);
+      }
+    }, { sourceMap, lineOffset });
+    const dom = this.createDom(capturedConsole, options.css);
+    this.activeDoms.add(dom);
+
     try {
-      // 创建一个新的执行上下文
-      const moduleExports: any = {};
-      const moduleRequire = this.createRequire();
-      
-      // 构建完整的代码
-      const wrappedCode = this.wrapCode(options.compiledCode);
-      
-      // 创建并执行函数
-      const func = new Function(
-        'exports',
-        'require',
-        'module',
-        '__dirname',
-        '__filename',
-        'React',
-        'ReactDOM',
-        wrappedCode
-      );
+      // 创建一个新的执行上下文，模块注册表也只属于这次渲染
+      const module = { exports: {} as any };
+      const requiredPackages = new Set<string>();
+      const moduleRequire = this.createRequire(requiredPackages);
+      // 代码创建的定时器在渲染结束后统一清除
+      timers = clockOptions ? new VirtualClock(clockOptions) : new RealTimers();
+      // 网络请求由mock表应答，并记录下来
+      const clock = timers;
+      network = new NetworkInterceptor({
+        ...options.network,
+        setTimeout: clock.globals.setTimeout as (callback: () => void, ms: number) => unknown,
+        now: clock instanceof VirtualClock ? () => clock.getNow() : Date.now
+      });
+      const sandboxSetTimeout = timers.globals.setTimeout as (callback: () => void, ms: number) => unknown;
+
+      // 沙箱的全局对象装在window上，代码里的window、globalThis和裸标识符看到的是同一套
+      Object.assign(dom.window, {
+        console: capturedConsole,
+        ...timers.globals,
+        ...network.createGlobals(),
+        // React需要的全局对象
+        requestAnimationFrame: (callback: Function) => sandboxSetTimeout(() => callback(), 0),
+        cancelAnimationFrame: timers.globals.clearTimeout
+      });
 
       // 导入React
       const React = moduleRequire('react');
       const ReactDOM = moduleRequire('react-dom');
 
-      // 执行代码
-      func(
-        moduleExports,
+      // 在window的上下文中编译并执行代码
+      const moduleFunction = vm.runInContext(withSourceURL(wrappedCode), dom.getInternalVMContext(), {
+        filename: SNIPPET_SOURCE_URL
+      });
+      moduleFunction(
+        module.exports,
         moduleRequire,
-        { exports: moduleExports },
-        __dirname,
-        __filename,
+        module,
+        SNIPPET_SOURCE_URL,
+        this.projectRoot,
         React,
         ReactDOM
       );
 
+      if (timers instanceof VirtualClock) {
+        timers.tick(clockOptions?.advance ?? 0);
+      }
+
       // 获取组件
+      const moduleExports = module.exports;
       const Component = moduleExports.default || moduleExports[options.componentName || 'Component'];
       
       if (!Component) {
@@ -97,69 +199,264 @@ export class IsolatedRenderer {
       }
 
       // 渲染组件
-      const element = React.createElement(Component, options.props || {});
-      
-      // 使用错误边界包装
+      phase = 'render';
+      // 代码使用了CSS-in-JS库时，渲染过程中收集它们生成的样式
+      styleCollectors = createStyleCollectors(this.projectRoot, React, requiredPackages);
+      // 项目预览配置中的decorators（Provider等）包在组件外面；自动生成的PreviewWrapper带有被预览组件的名字
+      const Decorated = decorateComponent(
+        React,
+        Component,
+        moduleExports[PREVIEW_CONFIG_EXPORT],
+        options.componentName || Component.previewName || Component.displayName || Component.name
+      );
+      const element = styleCollectors.reduce(
+        (wrapped, collector) => collector.wrap(wrapped),
+        React.createElement(Decorated, options.props || {})
+      );
+
+      // 使用错误边界包装，客户端渲染时由它显示错误并拿到component stack
       const wrappedElement = React.createElement(
         ErrorBoundary,
-        { fallback: this.renderError.bind(this) },
+        {
+          fallback: (error: unknown, stack?: string) => this.renderError(
+            toHostError(error),
+            mapRuntimeError(toHostError(error), sourceMap, lineOffset),
+            stack && mapComponentStack(stack, sourceMap, lineOffset).stack
+          ),
+          onError: (stack: string) => {
+            componentStack = componentStack ?? stack;
+          }
+        },
         element
       );
 
       // 服务端渲染
-      const html = ReactDOMServer.renderToString(wrappedElement);
+      let html: string;
+      let chunks: string[] | undefined;
+      const diagnostics: Diagnostic[] = [];
+      try {
+        if (streamingOptions) {
+          // 流式渲染，等待所有Suspense边界完成或超时
+          const timeout = streamingOptions.timeout ?? DEFAULT_STREAMING_TIMEOUT;
+          const clock = timers;
+          const streamed = await renderToChunks(wrappedElement, {
+            timeout,
+            now: clock instanceof VirtualClock ? () => clock.getNow() : Date.now,
+            wait: ms => this.wait(clock, ms)
+          });
+          html = this.applyStream(dom, streamed.chunks.join(''));
+          chunks = streamingOptions.chunks ? streamed.chunks : undefined;
+          if (streamed.timedOut) {
+            diagnostics.push({
+              severity: 'warning',
+              message: `Suspense boundaries were still pending after the ${timeout}ms streaming timeout; their fallbacks were rendered`,
+              phase: 'render'
+            });
+          }
+        } else {
+          html = ReactDOMServer.renderToString(wrappedElement);
+        }
+      } catch (error) {
+        // 服务端渲染不会调用错误边界，在window中再客户端渲染一次，让错误边界拿到component stack；
+        // 这次渲染只用于诊断，不记录日志
+        recordLogs = false;
+        try {
+          const { ReactDOMClient, container, act } = this.createClient(dom, React, timers);
+          const root = ReactDOMClient.createRoot(container);
+          await act(async () => root.render(wrappedElement));
+          await act(async () => root.unmount());
+        } catch {
+          // 拿不到component stack时仍然报告服务端渲染的错误
+        } finally {
+          recordLogs = true;
+        }
+        throw error;
+      }
+
+      // 挂载模式：在window中hydrate服务端渲染的结果，运行effects，再依次执行交互
+      if (options.mount || options.interactions?.length) {
+        const { ReactDOMClient, container, act, wait } = this.createClient(dom, React, timers);
+        container.innerHTML = html;
+
+        // effects和事件处理函数抛出的错误不会传出act和dispatchEvent，从window的error事件中收集；
+        // 在hydrate之前开始监听，hydrate时运行的effects出错也能收集到
+        const uncaught: unknown[] = [];
+        dom.window.addEventListener('error', (event: any) => uncaught.push(event.error));
+
+        let root: any;
+        await act(async () => {
+          root = ReactDOMClient.hydrateRoot(container, wrappedElement);
+        });
+        unmount = () => act(() => root.unmount());
+        if (uncaught.length > 0) {
+          throw uncaught[0];
+        }
+
+        phase = 'interaction';
+        for (const interaction of options.interactions || []) {
+          await performInteraction({ window: dom.window, act, wait }, interaction);
+          if (uncaught.length > 0) {
+            throw uncaught[0];
+          }
+        }
+        html = container.innerHTML;
+      }
+
+      // 项目使用Tailwind时，只为HTML中出现的class生成CSS；生成失败不影响渲染结果
+      let utilityCss: string | undefined;
+      if (options.tailwind) {
+        try {
+          utilityCss = await this.getTailwindStyles(options.tailwind).generate(html);
+        } catch (error) {
+          diagnostics.push({
+            severity: 'warning',
+            message: error instanceof Error ? error.message : String(error),
+            phase: 'render'
+          });
+        }
+      }
+
+      const styleTags = styleCollectors.map(collector => collector.getStyleTags(html)).join('');
 
       // 包装HTML
-      const finalHtml = this.wrapHtml(html, options);
+      const finalHtml = this.wrapHtml(html, options, { utilityCss, styleTags });
 
       return {
         html: finalHtml,
+        ...(diagnostics.length > 0 ? { diagnostics } : {}),
+        logs,
+        requests: network.requests,
+        ...(chunks ? { chunks } : {}),
         componentName: Component.name || 'Anonymous'
       };
-    } catch (error) {
+    } catch (caught) {
+      const error = toHostError(caught);
       logger.preview.error('Render failed', error);
+      const mapped = mapRuntimeError(error, sourceMap, lineOffset);
+      const mappedComponentStack = componentStack && mapComponentStack(componentStack, sourceMap, lineOffset).stack;
+
       return {
-        html: this.renderError(error),
-        error: error instanceof Error ? error.message : String(error)
+        html: this.wrapHtml(this.renderError(error, mapped, mappedComponentStack), options),
+        error: mapped.message,
+        stack: mapped.stack,
+        frames: mapped.frames,
+        diagnostics: [fromMappedError(error, mapped, phase)],
+        logs,
+        requests: network?.requests,
+        componentStack: mappedComponentStack
       };
+    } finally {
+      // 等卸载完成再关闭window，这次渲染的React工作不会延续到之后的渲染；卸载出错不影响清理
+      await unmount?.().catch(() => undefined);
+      styleCollectors.forEach(collector => collector.seal());
+      timers?.clearAll();
+      this.activeDoms.delete(dom);
+      dom.window.close();
+    }
+  }
+
+  /**
+   * 在window的上下文中加载react-dom，这样它使用的是这次渲染的window和document；
+   * React本身与组件代码共用同一个实例，react-dom通过withSilentDispatcher使用它
+   */
+  private createClient(dom: JSDOM, React: any, timers: SandboxTimers): ReactClient {
+    dom.window.IS_REACT_ACT_ENVIRONMENT = true;
+
+    return {
+      ReactDOMClient: new ContextModules(dom.getInternalVMContext(), { react: withSilentDispatcher(React) })
+        .require('react-dom/client'),
+      container: dom.window.document.getElementById('root'),
+      // act返回的是thenable，转成Promise
+      act: async callback => {
+        await React.unstable_act(callback);
+      },
+      wait: ms => this.wait(timers, ms)
+    };
+  }
+
+  // 让时间流逝ms：虚拟时钟直接前进，否则真实等待
+  private wait(timers: SandboxTimers, ms: number): Promise<void> {
+    if (timers instanceof VirtualClock) {
+      timers.tick(ms);
+      return flushMicrotasks();
     }
+    return new Promise(resolve => setTimeout(resolve, ms));
   }
 
-  private createRequire(): any {
-    return (moduleName: string) => {
+  /**
+   * 流式输出中，已完成的Suspense边界由内联脚本替换到fallback的位置；
+   * 像浏览器一样在window中执行这些脚本，得到最终的HTML
+   */
+  private applyStream(dom: JSDOM, streamedHtml: string): string {
+    const container = dom.window.document.getElementById('root')!;
+    container.innerHTML = streamedHtml;
+
+    for (const script of Array.from(container.querySelectorAll('script')) as any[]) {
+      dom.window.eval(script.textContent);
+      script.remove();
+    }
+    return container.innerHTML;
+  }
+
+  private createRequire(requiredPackages: Set<string>): (specifier: string) => any {
+    // react和react-dom必须和ReactDOMServer使用同一个实例
+    const loader = new ModuleLoader(this.projectRoot, {
+      ...this.modules,
+      mocks: {
+        ...this.modules.mocks,
+        'react': require('react'),
+        'react-dom': require('react-dom'),
+        'react/jsx-runtime': require('react/jsx-runtime')
+      }
+    });
+
+    return (specifier: string) => {
       try {
-        // 优先使用已加载的模块
-        if (moduleName === 'react' || moduleName === 'react-dom') {
-          return require(moduleName);
-        }
-        
-        // 其他模块
-        return require(moduleName);
+        const required = loader.require(specifier);
+        requiredPackages.add(getPackageName(specifier));
+        return required;
       } catch (error) {
-        logger.preview.warn(`Failed to require module: ${moduleName}`, error);
-        // 返回一个mock对象
-        return new Proxy({}, {
-          get: () => () => null
-        });
+        logger.preview.warn(`Failed to require module: ${specifier}`, error);
+        throw error;
       }
     };
   }
 
-  private wrapCode(code: string): string {
-    // 移除可能的import语句（已经被esbuild处理）
-    const codeWithoutImports = code.replace(/^import\s+.*?from\s+['"].*?['"];?\s*$/gm, '');
-    
-    return `
+  private wrapCode(code: string): { code: string; lineOffset: number } {
+    const wrappedCode = `(function (exports, require, module, __filename, __dirname, React, ReactDOM) {
       try {
-        ${codeWithoutImports}
+${code}
       } catch (error) {
         console.error('Code execution error:', error);
         throw error;
       }
-    `;
+    })`;
+
+    return {
+      code: wrappedCode,
+      lineOffset: getLineOffset(wrappedCode, code)
+    };
+  }
+
+  private getTailwindStyles(setup: TailwindSetup): TailwindStyles {
+    const key = JSON.stringify(setup);
+    let tailwindStyles = this.tailwindStyles.get(key);
+    if (!tailwindStyles) {
+      tailwindStyles = new TailwindStyles(this.projectRoot, setup);
+      this.tailwindStyles.set(key, tailwindStyles);
+    }
+    return tailwindStyles;
   }
 
-  private wrapHtml(componentHtml: string, options: RenderOptions): string {
+  /**
+   * extra是渲染之后才得到的样式：Tailwind为HTML中的class生成的CSS，
+   * 以及CSS-in-JS库收集到的<style>标签
+   */
+  private wrapHtml(
+    componentHtml: string,
+    options: RenderOptions,
+    extra: { utilityCss?: string; styleTags?: string } = {}
+  ): string {
     const styles = options.styles || this.getDefaultStyles();
     
     return `
@@ -169,7 +466,10 @@ export class IsolatedRenderer {
           <meta charset="UTF-8">
           <meta name="viewport" content="width=device-width, initial-scale=1.0">
           <title>Component Preview</title>
-          <style>${styles}</style>
+          <style>${styles}</style>${extra.utilityCss ? `
+          <style>${extra.utilityCss}</style>` : ''}${options.css ? `
+          <style>${options.css}</style>` : ''}${extra.styleTags ? `
+          ${extra.styleTags}` : ''}
         </head>
         <body>
           <div id="root">${componentHtml}</div>
@@ -219,25 +519,95 @@ export class IsolatedRenderer {
         white-space: pre-wrap;
         word-break: break-word;
       }
+      
+      .error-boundary .error-location {
+        margin: 10px 0 4px 0;
+        font-family: monospace;
+      }
+      
+      .error-boundary details {
+        margin-top: 10px;
+      }
     `;
   }
 
-  private renderError(error: any): string {
-    const message = error instanceof Error ? error.message : String(error);
-    const stack = error instanceof Error ? error.stack : '';
-    
+  /**
+   * 错误浮层：服务端渲染失败和客户端错误边界都使用它，显示出错的组件、原始代码位置和component stack
+   */
+  private renderError(error: unknown, mapped: MappedError, componentStack?: string): string {
+    const failingComponent = componentStack?.match(/^\s*at (\S+)/m)?.[1];
+    const location = mapped.frames[0];
+
     return `
       <div class="error-boundary">
-        <h3>Render Error</h3>
-        <pre>${message}</pre>
-        ${stack ? `<details><summary>Stack Trace</summary><pre>${stack}</pre></details>` : ''}
+        <h3>Render Error${failingComponent ? ` in &lt;${escapeHtml(failingComponent)}&gt;` : ''}</h3>
+        <pre>${escapeHtml(mapped.message)}</pre>
+        ${location ? `<p class="error-location">${escapeHtml(`${location.file}:${location.line}:${location.column}`)}</p>` : ''}
+        ${location?.snippet ? `<pre class="error-snippet">${escapeHtml(location.snippet)}</pre>` : ''}
+        ${componentStack ? `<details open><summary>Component Stack</summary><pre>${escapeHtml(componentStack)}</pre></details>` : ''}
+        ${mapped.stack ? `<details><summary>Stack Trace</summary><pre>${escapeHtml(mapped.stack)}</pre></details>` : ''}
       </div>
     `;
   }
 
   dispose(): void {
-    this.dom.window.close();
+    this.activeDoms.forEach(dom => dom.window.close());
+    this.activeDoms.clear();
+  }
+}
+
+// 代替null的dispatcher：组件里的hooks直接抛出错误，宿主的React不会在宿主的console上报告
+const SILENT_DISPATCHER = new Proxy({}, {
+  get: () => () => {
+    throw new Error('Invalid hook call. Hooks can only be called inside of the body of a function component.');
   }
+});
+
+/**
+ * 客户端渲染出错时，react-dom为了得到组件位置会清空dispatcher、静音console再调用一次组件；
+ * 它静音的是window的console，组件里的hooks却由宿主的React在宿主的console上报告
+ * "Invalid hook call"。交给react-dom的React在dispatcher被清空时换成SILENT_DISPATCHER，
+ * 和浏览器中一样什么也不输出；宿主的console不做任何改动
+ */
+function withSilentDispatcher(React: any): any {
+  const internals = React.__SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED;
+  const dispatcher = internals.ReactCurrentDispatcher;
+
+  return {
+    ...React,
+    __SECRET_INTERNALS_DO_NOT_USE_OR_YOU_WILL_BE_FIRED: {
+      ...internals,
+      ReactCurrentDispatcher: {
+        get current() {
+          return dispatcher.current === SILENT_DISPATCHER ? null : dispatcher.current;
+        },
+        set current(value: unknown) {
+          dispatcher.current = value ?? SILENT_DISPATCHER;
+        }
+      }
+    }
+  };
+}
+
+// 上下文中抛出的错误不是宿主Error的实例，转换后才能被正常识别和映射
+function toHostError(error: unknown): unknown {
+  if (error instanceof Error || typeof error !== 'object' || error === null || !('message' in error)) {
+    return error;
+  }
+
+  const { name, message, stack } = error as Error;
+  const hostError = new Error(String(message));
+  hostError.name = String(name || 'Error');
+  hostError.stack = stack;
+  return hostError;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
 }
 
 // React错误边界组件
@@ -253,11 +623,20 @@ class ErrorBoundary extends (require('react').Component) {
 
   componentDidCatch(error: any, errorInfo: any) {
     logger.preview.error('Component error caught by boundary', { error, errorInfo });
+    // 去掉开头的空行和错误边界自己这一帧
+    const componentStack = String(errorInfo.componentStack)
+      .replace(/^\n/, '')
+      .replace(/\n\s*at ErrorBoundary\b[^\n]*$/, '');
+    this.setState({ componentStack });
+    this.props.onError?.(componentStack);
   }
 
   render() {
     if ((this.state as any).hasError) {
-      return this.props.fallback((this.state as any).error);
+      const { error, componentStack } = this.state as any;
+      return require('react').createElement('div', {
+        dangerouslySetInnerHTML: { __html: this.props.fallback(error, componentStack) }
+      });
     }
 
     return this.props.children;
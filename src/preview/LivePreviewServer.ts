@@ -2,11 +2,16 @@ import * as http from 'http';
 import * as path from 'path';
 import * as fs from 'fs';
 import { WebSocketServer } from 'ws';
-import { createViteServer, ViteDevServer } from 'vite';
+import * as esbuild from 'esbuild';
+import type { Plugin, ViteDevServer } from 'vite';
 import { ComponentInfo } from '../core/ComponentDetector';
 import { CodeContext } from '../types';
 import { logger } from '../utils/Logger';
 
+// decorateComponent for the preview page, served as a Vite virtual module
+const DECORATORS_MODULE_ID = 'virtual:part-render/decorators';
+const RESOLVED_DECORATORS_MODULE_ID = `\0${DECORATORS_MODULE_ID}`;
+
 export interface PreviewServerConfig {
   port: number;
   host: string;
@@ -21,6 +26,7 @@ export class LivePreviewServer {
   private config: PreviewServerConfig;
   private components: ComponentInfo[] = [];
   private codeContext: CodeContext | null = null;
+  private decoratorsModule: Promise<string> | null = null;
 
   constructor(config: PreviewServerConfig) {
     this.config = config;
@@ -31,30 +37,24 @@ export class LivePreviewServer {
     this.codeContext = codeContext;
 
     // Create Vite dev server
-    this.viteServer = await createViteServer({
+    const { createServer } = await loadVite();
+    const viteServer = await createServer({
       root: this.config.projectRoot,
       server: { 
         port: this.config.port,
         host: this.config.host,
         hmr: this.config.hmr
       },
-      plugins: [
-        {
-          name: 'part-render-preview',
-          configureServer: (server) => {
-            server.middlewares.use('/api/components', this.handleComponentsAPI.bind(this));
-            server.middlewares.use('/api/preview', this.handlePreviewAPI.bind(this));
-          }
-        }
-      ]
+      plugins: [this.createPreviewPlugin()]
     });
+    this.viteServer = viteServer;
 
     // Setup WebSocket for real-time updates
     if (this.config.hmr) {
       this.setupWebSocket();
     }
 
-    await this.viteServer.listen();
+    await viteServer.listen();
     
     logger.preview.info(`🚀 Preview server running at http://${this.config.host}:${this.config.port}`);
   }
@@ -69,6 +69,22 @@ export class LivePreviewServer {
     }
   }
 
+  /**
+   * Serves the component and preview APIs, and decorateComponent as the
+   * virtual module the preview page imports.
+   */
+  private createPreviewPlugin(): Plugin {
+    return {
+      name: 'part-render-preview',
+      resolveId: id => id === DECORATORS_MODULE_ID ? RESOLVED_DECORATORS_MODULE_ID : undefined,
+      load: id => id === RESOLVED_DECORATORS_MODULE_ID ? this.getDecoratorsModule() : undefined,
+      configureServer: server => {
+        server.middlewares.use('/api/components', this.handleComponentsAPI.bind(this));
+        server.middlewares.use('/api/preview', this.handlePreviewAPI.bind(this));
+      }
+    };
+  }
+
   private setupWebSocket(): void {
     this.wsServer = new WebSocketServer({ 
       port: this.config.port + 1,
@@ -121,7 +137,7 @@ export class LivePreviewServer {
     });
   }
 
-  private async handleComponentsAPI(req: any, res: any, next: any): Promise<void> {
+  private async handleComponentsAPI(req: http.IncomingMessage, res: http.ServerResponse, next: () => void): Promise<void> {
     if (req.method !== 'GET') {
       return next();
     }
@@ -144,19 +160,24 @@ export class LivePreviewServer {
     }));
   }
 
-  private async handlePreviewAPI(req: any, res: any, next: any): Promise<void> {
+  private async handlePreviewAPI(req: http.IncomingMessage, res: http.ServerResponse, next: () => void): Promise<void> {
     if (req.method !== 'GET') {
       return next();
     }
 
-    const url = new URL(req.url, `http://${req.headers.host}`);
+    const requestUrl = req.url ?? '/';
+    const url = new URL(requestUrl, `http://${req.headers.host}`);
     const filePath = decodeURIComponent(url.searchParams.get('file') || '');
     const componentName = url.searchParams.get('component') || '';
     const propsJson = url.searchParams.get('props') || '{}';
 
     try {
       const props = JSON.parse(propsJson);
-      const previewHTML = await this.generatePreviewHTML(filePath, componentName, props);
+      // Vite resolves the page's imports, the virtual module among them, and adds its HMR client
+      const previewHTML = await this.viteServer!.transformIndexHtml(
+        requestUrl,
+        await this.generatePreviewHTML(filePath, componentName, props)
+      );
       
       res.setHeader('Content-Type', 'text/html');
       res.end(previewHTML);
@@ -175,6 +196,9 @@ export class LivePreviewServer {
       throw new Error(`Component ${componentName} not found in ${filePath}`);
     }
 
+    // The project's decorators, applied by the same function IsolatedRenderer uses
+    const previewConfig = this.codeContext?.previewConfig;
+
     return `
 <!DOCTYPE html>
 <html>
@@ -190,6 +214,14 @@ export class LivePreviewServer {
     
     // Import the component
     import { ${componentName} } from '/${filePath}';
+    import { decorateComponent } from '${DECORATORS_MODULE_ID}';
+    ${previewConfig ? `import previewConfig from '/${previewConfig}';` : 'const previewConfig = undefined;'}
+    
+    // Decorated once, around a component that renders the latest version of
+    // the previewed one, so updates keep the decorators' providers mounted
+    let Current = ${componentName};
+    const Preview = (props) => React.createElement(Current, props);
+    const Decorated = decorateComponent(React, Preview, previewConfig, '${componentName}');
     
     // Render the component with props
     const container = document.getElementById('root');
@@ -197,14 +229,15 @@ export class LivePreviewServer {
     
     function render() {
       const props = ${JSON.stringify(props)};
-      root.render(React.createElement(${componentName}, props));
+      root.render(React.createElement(Decorated, props));
     }
     
     render();
     
     // HMR handling
     if (import.meta.hot) {
-      import.meta.hot.accept('/${filePath}', () => {
+      import.meta.hot.accept('/${filePath}', (updated) => {
+        Current = updated?.${componentName} || Current;
         render();
       });
     }
@@ -216,6 +249,30 @@ export class LivePreviewServer {
 </html>`;
   }
 
+  /**
+   * decorateComponent as an ES module, bundled from the module IsolatedRenderer
+   * uses: its TypeScript source, or the compiled file when run from dist.
+   */
+  private getDecoratorsModule(): Promise<string> {
+    if (!this.decoratorsModule) {
+      this.decoratorsModule = esbuild.build({
+        stdin: {
+          contents: `export { decorateComponent } from ${JSON.stringify(require.resolve('./Decorators'))};`,
+          resolveDir: __dirname
+        },
+        bundle: true,
+        format: 'esm',
+        platform: 'browser',
+        write: false,
+        logLevel: 'silent'
+      }).then(result => result.outputFiles[0].text, error => {
+        this.decoratorsModule = null;
+        throw error;
+      });
+    }
+    return this.decoratorsModule;
+  }
+
   private generateHMRScript(): string {
     return `
     const ws = new WebSocket('ws://${this.config.host}:${this.config.port + 1}');
@@ -307,4 +364,16 @@ export class LivePreviewServer {
       }
     });
   }
-}
\ No newline at end of file
+}
+
+// Vite is an optional peer dependency, only loaded when a preview server starts
+async function loadVite(): Promise<typeof import('vite')> {
+  try {
+    return await import('vite');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'MODULE_NOT_FOUND') {
+      throw new Error('The live preview server needs Vite: install "vite" to use it');
+    }
+    throw error;
+  }
+}
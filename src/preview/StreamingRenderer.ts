@@ -0,0 +1,89 @@
+import { Writable } from 'stream';
+import type { ReactElement } from 'react';
+import * as ReactDOMServer from 'react-dom/server';
+
+/** How long to wait for Suspense boundaries when the options don't say */
+export const DEFAULT_STREAMING_TIMEOUT = 5000;
+const WAIT_INTERVAL = 10;
+
+export interface StreamedRender {
+  /** HTML in the order React flushed it: the shell with fallbacks first, then each resolved boundary */
+  chunks: string[];
+  /** Whether the timeout ran out and unresolved boundaries were left showing their fallbacks */
+  timedOut: boolean;
+}
+
+export interface StreamOptions {
+  timeout: number;
+  /** The render's clock, which the timeout is measured on */
+  now: () => number;
+  /** Lets ms pass on the render's clock, firing the timers that fall due */
+  wait: (ms: number) => Promise<void>;
+}
+
+/**
+ * Renders with renderToPipeableStream and collects the stream until every
+ * Suspense boundary has resolved, or aborts it once the timeout runs out.
+ *
+ * Errors in the shell reject like renderToString would throw; an error
+ * inside a boundary rejects too, instead of being left for the client to
+ * retry.
+ */
+export async function renderToChunks(element: ReactElement, options: StreamOptions): Promise<StreamedRender> {
+  const chunks: string[] = [];
+  const decoder = new TextDecoder();
+  let pending = '';
+  let finished = false;
+  let aborted = false;
+  let failure: { error: unknown } | undefined;
+
+  const destination = Object.assign(new Writable({
+    write(chunk: Uint8Array | string, _encoding, callback) {
+      pending += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+      callback();
+    }
+  }), {
+    // React calls flush after each batch it writes, which makes a batch one chunk
+    flush() {
+      if (pending) {
+        chunks.push(pending);
+        pending = '';
+      }
+    }
+  });
+  destination.on('finish', () => {
+    destination.flush();
+    finished = true;
+  });
+
+  const stream = ReactDOMServer.renderToPipeableStream(element, {
+    onShellReady() {
+      stream.pipe(destination);
+    },
+    onShellError(error) {
+      failure = failure ?? {
+        error: aborted ? new Error(`The shell did not finish rendering within ${options.timeout}ms`) : error
+      };
+    },
+    onError(error) {
+      // Aborting reports every unresolved boundary as an error
+      if (!aborted) {
+        failure = failure ?? { error };
+      }
+    }
+  });
+
+  const deadline = options.now() + options.timeout;
+  while (!finished && !failure) {
+    if (options.now() >= deadline && !aborted) {
+      aborted = true;
+      stream.abort();
+    }
+    await options.wait(WAIT_INTERVAL);
+  }
+
+  if (failure) {
+    throw failure.error;
+  }
+  return { chunks, timedOut: aborted };
+}
@@ -0,0 +1,78 @@
+import * as path from 'path';
+import { createRequire } from 'module';
+
+/**
+ * CSS-in-JS packages whose styles are collected while rendering on the
+ * server. SmartCompiler keeps them out of the bundle, so the rendered code
+ * and its collector share the instance loaded from the project.
+ */
+export const CSS_IN_JS_PACKAGES = ['styled-components', '@emotion/react', '@emotion/styled'];
+
+export interface StyleCollector {
+  /** Wraps the element, so the styles of everything rendered inside it are recorded */
+  wrap(element: any): any;
+  /** <style> tags with the styles the final html uses */
+  getStyleTags(html: string): string;
+  /** Releases what the collector recorded once the render is done */
+  seal(): void;
+}
+
+/**
+ * A collector for each CSS-in-JS library among the packages the rendered
+ * code required: styled-components' ServerStyleSheet, and Emotion's
+ * extractCritical with a cache of the render's own.
+ */
+export function createStyleCollectors(projectRoot: string, React: any, requiredPackages: Set<string>): StyleCollector[] {
+  const projectRequire = createRequire(path.join(path.resolve(projectRoot), 'package.json'));
+  const collectors: StyleCollector[] = [];
+
+  if (requiredPackages.has('styled-components')) {
+    collectors.push(createStyledComponentsCollector(projectRequire));
+  }
+
+  const emotionPackage = ['@emotion/react', '@emotion/styled'].find(name => requiredPackages.has(name));
+  const emotionCollector = emotionPackage && createEmotionCollector(projectRequire, React, emotionPackage);
+  if (emotionCollector) {
+    collectors.push(emotionCollector);
+  }
+
+  return collectors;
+}
+
+function createStyledComponentsCollector(projectRequire: NodeRequire): StyleCollector {
+  const { ServerStyleSheet } = projectRequire('styled-components');
+  const sheet = new ServerStyleSheet();
+
+  return {
+    wrap: element => sheet.collectStyles(element),
+    getStyleTags: () => sheet.getStyleTags(),
+    seal: () => sheet.seal()
+  };
+}
+
+function createEmotionCollector(projectRequire: NodeRequire, React: any, emotionPackage: string): StyleCollector | undefined {
+  let createEmotionServer: (cache: unknown) => { extractCritical: (html: string) => { css: string; ids: string[] } };
+  try {
+    createEmotionServer = projectRequire('@emotion/server/create-instance').default;
+  } catch {
+    // Without @emotion/server, Emotion puts <style> tags next to the components itself
+    return undefined;
+  }
+
+  // The cache and its provider must be the instances the package the code used depends on
+  const emotionRequire = createRequire(projectRequire.resolve(emotionPackage));
+  const createCache = emotionRequire('@emotion/cache').default;
+  const { CacheProvider } = emotionRequire('@emotion/react');
+  const cache = createCache({ key: 'css' });
+  // Also stops Emotion from rendering its <style> tags into the markup
+  const { extractCritical } = createEmotionServer(cache);
+
+  return {
+    wrap: element => React.createElement(CacheProvider, { value: cache }, element),
+    getStyleTags: html => {
+      const { css, ids } = extractCritical(html);
+      return css ? `<style data-emotion="${cache.key} ${ids.join(' ')}">${css}</style>` : '';
+    },
+    seal: () => undefined
+  };
+}
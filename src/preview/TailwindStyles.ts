@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vm from 'vm';
+import { createRequire } from 'module';
+import * as esbuild from 'esbuild';
+import YAML from 'yaml';
+import type { TailwindSetup } from '../types';
+
+const TAILWIND_3_INPUT = '@tailwind base;\n@tailwind components;\n@tailwind utilities;';
+const CLASS_ATTRIBUTE_REGEX = /\sclass="([^"]*)"/g;
+const HTML_ENTITY_REGEX = /&(amp|lt|gt|quot|#x27);/g;
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#x27': "'" };
+
+/**
+ * Generates the Tailwind CSS a rendered preview needs, using the tailwindcss
+ * and postcss the project has installed, so it works offline and matches the
+ * project's Tailwind version. Only the classes found in the markup are
+ * generated, on top of Tailwind's base styles.
+ *
+ * Tailwind 3 runs as a PostCSS plugin with the project's config. Tailwind 4
+ * runs through @tailwindcss/postcss, with its own source scanning turned off.
+ * Either takes the place of Tailwind's plugin in the project's PostCSS
+ * config, so the config's other plugins (nesting, autoprefixer) run too.
+ */
+export class TailwindStyles {
+  private projectRoot: string;
+  private setup: TailwindSetup;
+  private projectRequire: NodeRequire;
+  private config?: Record<string, any>;
+  private postcssConfig?: Promise<Record<string, any>>;
+
+  constructor(projectRoot: string, setup: TailwindSetup) {
+    this.projectRoot = path.resolve(projectRoot);
+    this.setup = setup;
+    this.projectRequire = createRequire(path.join(this.projectRoot, 'package.json'));
+  }
+
+  async generate(html: string): Promise<string> {
+    const classNames = extractClassNames(html);
+    const version: string = this.load('tailwindcss/package.json').version;
+
+    return version.startsWith('3.') ? this.generateTailwind3(classNames) : this.generateTailwind4(classNames);
+  }
+
+  private async generateTailwind3(classNames: string[]): Promise<string> {
+    const postcss = this.load('postcss');
+    const tailwindcss = this.load('tailwindcss');
+    const config = {
+      ...this.loadConfig(),
+      content: [{ raw: classNames.join(' '), extension: 'html' }]
+    };
+
+    const plugins = await this.getPostcssPlugins('tailwindcss', tailwindcss(config));
+    const result = await postcss(plugins).process(TAILWIND_3_INPUT, { from: undefined });
+    return result.css;
+  }
+
+  private async generateTailwind4(classNames: string[]): Promise<string> {
+    const postcss = this.load('postcss');
+    const tailwindPostcss = this.load('@tailwindcss/postcss');
+    // inline() expands braces like a glob, so class names containing them can't be listed
+    const candidates = classNames
+      .filter(name => !/[{}]/.test(name))
+      .map(name => name.replace(/[\\"]/g, '\\$&'));
+    const input = [
+      '@import "tailwindcss" source(none);',
+      ...(this.setup.configPath ? [`@config "${this.resolve(this.setup.configPath)}";`] : []),
+      ...(candidates.length > 0 ? [`@source inline("${candidates.join(' ')}");`] : [])
+    ].join('\n');
+
+    // `from` is where @import "tailwindcss" is resolved from
+    const plugins = await this.getPostcssPlugins('@tailwindcss/postcss', tailwindPostcss({ base: this.projectRoot }));
+    const result = await postcss(plugins).process(input, { from: path.join(this.projectRoot, 'preview.css') });
+    return result.css;
+  }
+
+  /**
+   * The plugins of the project's PostCSS config in order, with `tailwindPlugin`
+   * in place of the one from `tailwindPackage`, or first when the config
+   * doesn't list it. Just `tailwindPlugin` without a config.
+   */
+  private async getPostcssPlugins(tailwindPackage: string, tailwindPlugin: unknown): Promise<unknown[]> {
+    if (!this.setup.postcssConfigPath) {
+      return [tailwindPlugin];
+    }
+
+    const { plugins = [] } = await this.loadPostcssConfig();
+    // Plugins are an array of plugins, or an object of plugin names and their options
+    const entries: Array<[string | undefined, any]> = Array.isArray(plugins)
+      ? plugins.filter(Boolean).map(plugin => [undefined, plugin])
+      : Object.entries(plugins).filter(([, options]) => options !== false);
+
+    let replaced = false;
+    const resolved = entries.map(([name, pluginOrOptions]) => {
+      const isTailwind = name
+        ? name === tailwindPackage
+        : pluginOrOptions === this.load(tailwindPackage) || pluginOrOptions?.postcssPlugin === tailwindPackage;
+      if (isTailwind) {
+        replaced = true;
+        return tailwindPlugin;
+      }
+      if (!name) {
+        return pluginOrOptions;
+      }
+      const plugin = this.load(name);
+      return pluginOrOptions === true ? plugin() : plugin(pluginOrOptions);
+    });
+
+    return replaced ? resolved : [tailwindPlugin, ...resolved];
+  }
+
+  /**
+   * Reads the PostCSS config. .postcssrc files are JSON or YAML; the others
+   * are bundled to CommonJS first, so ESM and TypeScript configs load too.
+   */
+  private loadPostcssConfig(): Promise<Record<string, any>> {
+    if (!this.postcssConfig) {
+      const configPath = this.resolve(this.setup.postcssConfigPath!);
+      this.postcssConfig = (async () => {
+        if (/\.postcssrc(\.json)?$/.test(configPath)) {
+          return YAML.parse(await fs.promises.readFile(configPath, 'utf-8')) || {};
+        }
+
+        const { outputFiles } = await esbuild.build({
+          entryPoints: [configPath],
+          bundle: true,
+          platform: 'node',
+          format: 'cjs',
+          packages: 'external',
+          write: false,
+          logLevel: 'silent'
+        });
+        const module = { exports: {} as any };
+        const moduleFunction = vm.runInThisContext(
+          `(function (exports, require, module, __filename, __dirname) {${outputFiles[0].text}\n})`,
+          { filename: configPath }
+        );
+        moduleFunction(module.exports, createRequire(configPath), module, configPath, path.dirname(configPath));
+
+        const config = module.exports.default ?? module.exports;
+        return typeof config === 'function' ? config({ env: process.env.NODE_ENV, cwd: this.projectRoot }) : config;
+      })().catch(error => {
+        // A fixed config is read again on the next render
+        this.postcssConfig = undefined;
+        throw error;
+      });
+    }
+    return this.postcssConfig;
+  }
+
+  private loadConfig(): Record<string, any> {
+    if (!this.config) {
+      if (this.setup.configPath) {
+        const configPath = this.resolve(this.setup.configPath);
+        // loadConfig (Tailwind 3.3+) also reads TypeScript and ESM configs
+        let loadConfig: ((file: string) => any) | undefined;
+        try {
+          loadConfig = this.projectRequire('tailwindcss/loadConfig');
+        } catch {
+          loadConfig = undefined;
+        }
+        this.config = loadConfig ? loadConfig(configPath) : this.projectRequire(configPath);
+      } else {
+        this.config = {};
+      }
+    }
+    return this.config!;
+  }
+
+  private load(specifier: string): any {
+    try {
+      return this.projectRequire(specifier);
+    } catch {
+      const packageName = specifier.startsWith('@')
+        ? specifier.split('/').slice(0, 2).join('/')
+        : specifier.split('/')[0];
+      throw new Error(`Cannot generate Tailwind styles: install "${packageName}" in the project`);
+    }
+  }
+
+  private resolve(relativePath: string): string {
+    return path.resolve(this.projectRoot, relativePath);
+  }
+}
+
+/**
+ * Every distinct class name in the markup, unescaped from the class
+ * attributes React rendered.
+ */
+export function extractClassNames(html: string): string[] {
+  const classNames = new Set<string>();
+
+  for (const match of html.matchAll(CLASS_ATTRIBUTE_REGEX)) {
+    const value = match[1].replace(HTML_ENTITY_REGEX, (_, entity: string) => HTML_ENTITIES[entity]);
+    for (const className of value.split(/\s+/)) {
+      if (className) {
+        classNames.add(className);
+      }
+    }
+  }
+
+  return Array.from(classNames);
+}
@@ -0,0 +1,113 @@
+import { Console } from 'console';
+import { Writable } from 'stream';
+import { formatWithOptions, inspect, InspectOptions } from 'util';
+import type { ConsoleLevel, LogEntry, StackFrame } from '../types';
+import { getSnippetPosition, SourceMapper } from '../utils/SourceMapper';
+
+const INSPECT_OPTIONS: InspectOptions = {
+  depth: 3,
+  maxArrayLength: 100,
+  maxStringLength: 10000,
+  breakLength: Infinity,
+  compact: true
+};
+
+export interface ConsoleCaptureOptions {
+  /** Map of the evaluated code, used to give entries a source location */
+  sourceMap?: string;
+  /** Lines the evaluation wrapper put before the code */
+  lineOffset?: number;
+}
+
+export type CapturedConsole = Record<
+  'log' | 'info' | 'warn' | 'error' | 'debug' | 'trace' | 'dir' | 'table' | 'group' | 'groupCollapsed' | 'groupEnd' | 'assert',
+  (...args: any[]) => void
+>;
+
+/**
+ * Builds the `console` given to sandboxed code. Every executor and
+ * IsolatedRenderer use it, so logs look the same wherever code ran.
+ */
+export function createConsoleCapture(
+  onEntry: (entry: LogEntry) => void,
+  options: ConsoleCaptureOptions = {}
+): CapturedConsole {
+  const locate = createLocator(options);
+  let groupDepth = 0;
+
+  const emit = (level: ConsoleLevel, args: unknown[], message = formatWithOptions(INSPECT_OPTIONS, ...args)) => {
+    const entry: LogEntry = {
+      level,
+      message,
+      args: args.map(arg => typeof arg === 'string' ? arg : inspect(arg, INSPECT_OPTIONS)),
+      timestamp: Date.now(),
+      groupDepth
+    };
+
+    const location = locate(new Error().stack);
+    if (location) {
+      entry.location = location;
+    }
+    onEntry(entry);
+  };
+
+  const group = (...label: unknown[]) => {
+    emit('group', label);
+    groupDepth++;
+  };
+
+  return {
+    log: (...args) => emit('log', args),
+    info: (...args) => emit('info', args),
+    warn: (...args) => emit('warn', args),
+    error: (...args) => emit('error', args),
+    debug: (...args) => emit('debug', args),
+    trace: (...args) => emit('trace', args),
+    dir: (value: unknown) => emit('log', [value], inspect(value, INSPECT_OPTIONS)),
+    table: (data: unknown, properties?: string[]) => emit('table', [data], renderTable(data, properties)),
+    group,
+    groupCollapsed: group,
+    groupEnd: () => {
+      groupDepth = Math.max(0, groupDepth - 1);
+    },
+    assert: (condition: unknown, ...args: unknown[]) => {
+      if (!condition) {
+        emit('error', ['Assertion failed' + (args.length > 0 ? ':' : ''), ...args]);
+      }
+    }
+  };
+}
+
+function createLocator(options: ConsoleCaptureOptions): (stack: string | undefined) => StackFrame | undefined {
+  if (!options.sourceMap) {
+    return () => undefined;
+  }
+
+  let mapper: SourceMapper;
+  try {
+    mapper = new SourceMapper(options.sourceMap, options.lineOffset);
+  } catch {
+    return () => undefined;
+  }
+
+  return stack => {
+    const position = getSnippetPosition(stack);
+    return (position && mapper.mapPosition(position.line, position.column)) || undefined;
+  };
+}
+
+/**
+ * Renders console.table output with Node's own table layout.
+ */
+function renderTable(data: unknown, properties?: string[]): string {
+  let output = '';
+  const stream = new Writable({
+    write(chunk, _encoding, callback) {
+      output += chunk;
+      callback();
+    }
+  });
+
+  new Console({ stdout: stream, colorMode: false }).table(data, properties);
+  return output.trimEnd();
+}
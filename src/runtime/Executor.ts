@@ -1,115 +1,191 @@
-import { VM } from 'vm2';
-import { RenderResult, PartRenderOptions } from '../types';
-
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { LogEntry, NetworkRequest, RenderResult, PartRenderOptions } from '../types';
+import { extractInlineSourceMap, mapRuntimeError, withSourceURL } from '../utils/SourceMapper';
+import { fromMappedError } from '../utils/Diagnostics';
+import { ModuleLoader } from './ModuleLoader';
+import { createConsoleCapture } from './ConsoleCapture';
+import type { SerializedError, WorkerInput, WorkerMessage } from './ExecutorWorker';
+
+const WORKER_LINE_OFFSET = 1;
+const DEFAULT_TIMEOUT = 30000;
+const DEFAULT_MEMORY_LIMIT_MB = 128;
+const DEFAULT_SETTLE_TIMEOUT = 1000;
+
+/**
+ * Runs compiled snippets in a worker thread, inside a fresh node:vm context.
+ * The worker has its own heap limit and is terminated when the timeout
+ * elapses, so a runaway snippet can't freeze the host or leak globals into it.
+ */
 export class Executor {
-  private vm: VM;
   private options: PartRenderOptions;
+  private worker: Worker | null = null;
 
   constructor(options: PartRenderOptions = {}) {
     this.options = {
       enableLogs: true,
       strictMode: false,
       customGlobals: {},
-      ...options
+      ...options,
+      timeout: options.timeout ?? DEFAULT_TIMEOUT,
+      memoryLimitMb: options.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB
     };
-
-    this.vm = new VM({
-      timeout: 30000,
-      sandbox: this.createSandbox()
-    });
   }
 
-  async executeCode(compiledCode: string): Promise<RenderResult> {
+  /**
+   * @param sourceMap map of compiledCode, used to report errors at their
+   * original positions. Defaults to the map inlined in compiledCode.
+   */
+  async executeCode(compiledCode: string, sourceMap?: string): Promise<RenderResult> {
     const startTime = Date.now();
-    const logs: string[] = [];
+    const logs: LogEntry[] = [];
+    const requests: NetworkRequest[] = [];
+    const resolvedSourceMap = sourceMap || extractInlineSourceMap(compiledCode);
+    const settle = (result: Omit<RenderResult, 'logs' | 'requests' | 'executionTime'>): RenderResult => ({
+      ...result,
+      logs: this.options.enableLogs ? logs : [],
+      requests,
+      executionTime: Date.now() - startTime
+    });
+    const fail = (serialized: SerializedError): RenderResult => {
+      const error = toError(serialized);
+      const mapped = mapRuntimeError(error, resolvedSourceMap, WORKER_LINE_OFFSET);
 
+      return settle({
+        success: false,
+        error: mapped.message,
+        stack: mapped.stack,
+        frames: mapped.frames,
+        diagnostics: [fromMappedError(error, mapped, 'runtime')]
+      });
+    };
+
+    const input: WorkerInput = {
+      code: compiledCode,
+      projectRoot: this.options.projectRoot || process.cwd(),
+      strictMode: !!this.options.strictMode,
+      timeout: this.options.timeout!,
+      customGlobals: this.options.customGlobals || {},
+      modules: this.options.modules || {},
+      sourceMap: resolvedSourceMap,
+      async: !!this.options.async,
+      settleTimeout: this.options.settleTimeout ?? DEFAULT_SETTLE_TIMEOUT,
+      clock: this.options.clock === true ? {} : this.options.clock || undefined,
+      network: this.options.network || {}
+    };
+
+    let worker: Worker;
     try {
-      const result = await this.runInSandbox(compiledCode, logs);
-      
-      return {
-        success: true,
-        output: result,
-        logs: this.options.enableLogs ? logs : [],
-        executionTime: Date.now() - startTime
-      };
+      worker = this.spawnWorker(input);
     } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-        logs: this.options.enableLogs ? logs : [],
-        executionTime: Date.now() - startTime
+      // customGlobals or mocks that can't be structured-cloned end up here
+      return fail(serializeError(error));
+    }
+
+    return new Promise<RenderResult>(resolve => {
+      let settled = false;
+      const finish = (result: RenderResult) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        this.terminate(worker);
+        resolve(result);
       };
+
+      const timer = setTimeout(() => {
+        finish(fail({
+          name: 'TimeoutError',
+          message: `Execution timed out after ${this.options.timeout}ms`
+        }));
+      }, this.options.timeout);
+
+      worker.on('message', (message: WorkerMessage) => {
+        switch (message.type) {
+          case 'log':
+            logs.push(message.entry);
+            break;
+          case 'request':
+            requests.push(message.request);
+            break;
+          case 'result':
+            finish(settle({
+              success: true,
+              output: message.output,
+              diagnostics: message.pendingTimers
+                ? [{
+                  severity: 'warning',
+                  message: `${message.pendingTimers} timer(s) were still pending after the ${input.clock?.advance ?? input.settleTimeout}ms settle timeout`,
+                  phase: 'runtime'
+                }]
+                : undefined
+            }));
+            break;
+          case 'error':
+            finish(fail(message.error));
+            break;
+        }
+      });
+      worker.on('error', error => finish(fail(serializeError(error))));
+      worker.on('exit', code => finish(fail({
+        name: 'Error',
+        message: `Execution worker exited unexpectedly with code ${code}`
+      })));
+    });
+  }
+
+  dispose(): void {
+    if (this.worker) {
+      this.terminate(this.worker);
     }
   }
 
-  private createSandbox(): Record<string, any> {
-    const logs: string[] = [];
-    
-    const sandbox = {
-      console: {
-        log: (...args: any[]) => {
-          logs.push(args.map(arg => String(arg)).join(' '));
-        },
-        error: (...args: any[]) => {
-          logs.push('ERROR: ' + args.map(arg => String(arg)).join(' '));
-        },
-        warn: (...args: any[]) => {
-          logs.push('WARN: ' + args.map(arg => String(arg)).join(' '));
-        }
-      },
-      setTimeout,
-      setInterval,
-      clearTimeout,
-      clearInterval,
-      JSON,
-      Math,
-      Date,
-      Array,
-      Object,
-      String,
-      Number,
-      Boolean,
-      RegExp,
-      Error,
-      Promise,
-      ...this.options.customGlobals
+  private spawnWorker(input: WorkerInput): Worker {
+    const options = {
+      workerData: input,
+      resourceLimits: { maxOldGenerationSizeMb: this.options.memoryLimitMb }
     };
 
-    return sandbox;
-  }
+    // Running from source (tests, tsx): the worker has to load tsx itself
+    const worker = path.extname(__filename) === '.ts'
+      ? new Worker(
+        `require('tsx/cjs'); require(${JSON.stringify(path.join(__dirname, 'ExecutorWorker.ts'))});`,
+        { ...options, eval: true }
+      )
+      : new Worker(path.join(__dirname, 'ExecutorWorker.js'), options);
 
-  private async runInSandbox(code: string, logs: string[]): Promise<any> {
-    const wrappedCode = `
-      (function() {
-        ${this.options.strictMode ? "'use strict';" : ''}
-        ${code}
-        
-        // Try to return the last expression or exported component
-        if (typeof module !== 'undefined' && module.exports) {
-          return module.exports;
-        }
-        
-        // Look for common export patterns
-        const possibleExports = [
-          typeof App !== 'undefined' ? App : null,
-          typeof Component !== 'undefined' ? Component : null,
-          typeof default !== 'undefined' ? default : null
-        ].filter(Boolean);
-        
-        return possibleExports[0] || null;
-      })();
-    `;
-
-    return this.vm.run(wrappedCode);
+    this.worker = worker;
+    return worker;
   }
 
-  dispose(): void {
-    // VM2 doesn't have an explicit dispose method, but we can clear references
-    this.vm = null as any;
+  private terminate(worker: Worker): void {
+    worker.removeAllListeners();
+    worker.terminate().catch(() => undefined);
+    if (this.worker === worker) {
+      this.worker = null;
+    }
   }
 }
 
-// Fallback executor for when VM2 is not available
+function serializeError(error: unknown): SerializedError {
+  return error instanceof Error
+    ? { name: error.name, message: error.message, stack: error.stack }
+    : { name: 'Error', message: String(error) };
+}
+
+function toError(serialized: SerializedError): Error {
+  const error = new Error(serialized.message);
+  error.name = serialized.name;
+  error.stack = serialized.stack;
+  return error;
+}
+
+/**
+ * Runs compiled code in the host process with `new Function`.
+ *
+ * @deprecated offers no isolation, timeout or memory limit; use Executor.
+ */
 export class SimpleExecutor {
   private options: PartRenderOptions;
 
@@ -122,35 +198,28 @@ export class SimpleExecutor {
     };
   }
 
-  async executeCode(compiledCode: string): Promise<RenderResult> {
+  async executeCode(compiledCode: string, sourceMap?: string): Promise<RenderResult> {
     const startTime = Date.now();
-    const logs: string[] = [];
+    const logs: LogEntry[] = [];
+    const resolvedSourceMap = sourceMap || extractInlineSourceMap(compiledCode);
 
     try {
-      const consoleMock = {
-        log: (...args: any[]) => {
-          logs.push(args.map(arg => String(arg)).join(' '));
-        },
-        error: (...args: any[]) => {
-          logs.push('ERROR: ' + args.map(arg => String(arg)).join(' '));
-        },
-        warn: (...args: any[]) => {
-          logs.push('WARN: ' + args.map(arg => String(arg)).join(' '));
-        }
-      };
+      // new Function puts its parameter list on the first two lines
+      const consoleMock = createConsoleCapture(entry => logs.push(entry), {
+        sourceMap: resolvedSourceMap,
+        lineOffset: 2
+      });
 
       const originalConsole = global.console;
       global.console = consoleMock as any;
 
       let result;
       try {
-        const func = new Function('require', 'module', 'exports', 'console', compiledCode);
+        const func = new Function('require', 'module', 'exports', 'console', withSourceURL(compiledCode));
         const mockModule = { exports: {} };
-        const mockRequire = (name: string) => {
-          throw new Error(`Module '${name}' not available in sandbox`);
-        };
+        const loader = new ModuleLoader(this.options.projectRoot || process.cwd(), this.options.modules);
 
-        func(mockRequire, mockModule, mockModule.exports, consoleMock);
+        func(loader.require, mockModule, mockModule.exports, consoleMock);
         result = mockModule.exports;
       } finally {
         global.console = originalConsole;
@@ -163,12 +232,17 @@ export class SimpleExecutor {
         executionTime: Date.now() - startTime
       };
     } catch (error) {
+      const mapped = mapRuntimeError(error, resolvedSourceMap, 2);
+
       return {
         success: false,
-        error: error instanceof Error ? error.message : String(error),
+        error: mapped.message,
+        stack: mapped.stack,
+        frames: mapped.frames,
+        diagnostics: [fromMappedError(error, mapped, 'runtime')],
         logs: this.options.enableLogs ? logs : [],
         executionTime: Date.now() - startTime
       };
     }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,192 @@
+import * as vm from 'vm';
+import { parentPort, workerData } from 'worker_threads';
+import { SNIPPET_SOURCE_URL, withSourceURL } from '../utils/SourceMapper';
+import { ModuleLoader } from './ModuleLoader';
+import { createConsoleCapture } from './ConsoleCapture';
+import { RealTimers, SandboxTimers } from './SandboxTimers';
+import { VirtualClock } from './VirtualClock';
+import { NetworkInterceptor } from './NetworkInterceptor';
+import type { ClockOptions, LogEntry, ModuleOptions, NetworkOptions, NetworkRequest } from '../types';
+
+export interface WorkerInput {
+  code: string;
+  /** Directory packages are required from */
+  projectRoot: string;
+  strictMode: boolean;
+  /** Limit for synchronous execution, in ms */
+  timeout: number;
+  customGlobals: Record<string, unknown>;
+  modules: ModuleOptions;
+  /** Gives log entries a source location */
+  sourceMap?: string;
+  /** Await the module, then wait up to settleTimeout ms for pending timers */
+  async: boolean;
+  settleTimeout: number;
+  clock?: ClockOptions;
+  network: NetworkOptions;
+}
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
+/** Messages the worker posts back to Executor */
+export type WorkerMessage =
+  | { type: 'log'; entry: LogEntry }
+  | { type: 'request'; request: NetworkRequest }
+  | { type: 'result'; output: unknown; pendingTimers?: number }
+  | { type: 'error'; error: SerializedError };
+
+/**
+ * Lines the CommonJS wrapper puts before the compiled code.
+ */
+export const WRAPPER_LINE_OFFSET = 1;
+
+const MAX_OUTPUT_DEPTH = 4;
+
+function post(message: WorkerMessage): void {
+  parentPort!.postMessage(message);
+}
+
+/**
+ * Turns module.exports into something postMessage can clone: functions and
+ * class instances become descriptive strings, deep structures are cut off.
+ */
+function toTransferable(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'function') {
+    return `[Function: ${value.name || 'anonymous'}]`;
+  }
+  if (typeof value === 'symbol' || typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  if (depth >= MAX_OUTPUT_DEPTH) {
+    return Array.isArray(value) ? '[Array]' : '[Object]';
+  }
+
+  seen.add(value);
+  if (Array.isArray(value)) {
+    return value.map(item => toTransferable(item, depth + 1, seen));
+  }
+  if (value instanceof Date || value instanceof RegExp) {
+    return value.toString();
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(value)) {
+    result[key] = toTransferable((value as Record<string, unknown>)[key], depth + 1, seen);
+  }
+  return result;
+}
+
+function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return !!value && (typeof value === 'object' || typeof value === 'function') &&
+    typeof (value as PromiseLike<unknown>).then === 'function';
+}
+
+/**
+ * Resolves a promise exported by the snippet, as module.exports or as its
+ * default export.
+ */
+async function resolveExports(exports: unknown): Promise<unknown> {
+  if (isThenable(exports)) {
+    return await exports;
+  }
+  const defaultExport = (exports as { default?: unknown } | null)?.default;
+  if (isThenable(defaultExport)) {
+    return { ...(exports as object), default: await defaultExport };
+  }
+  return exports;
+}
+
+function serializeError(error: unknown): SerializedError {
+  if (error && typeof error === 'object' && 'message' in error) {
+    // Errors created inside the context aren't instances of the worker's Error
+    const { name, message, stack } = error as SerializedError;
+    return { name: String(name || 'Error'), message: String(message), stack };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+async function run(input: WorkerInput): Promise<void> {
+  const loader = new ModuleLoader(input.projectRoot, input.modules);
+  const module = { exports: {} as unknown };
+  const timers: SandboxTimers = input.clock ? new VirtualClock(input.clock) : new RealTimers();
+  const network = new NetworkInterceptor({
+    ...input.network,
+    setTimeout: timers.globals.setTimeout as (callback: () => void, ms: number) => unknown,
+    now: timers instanceof VirtualClock ? () => timers.getNow() : Date.now,
+    onRequest: request => post({ type: 'request', request })
+  }).createGlobals();
+
+  // Packages the snippet requires run in the worker's own realm; the worker
+  // only lives for this run, so their fetch / XMLHttpRequest are replaced too
+  Object.assign(globalThis, network);
+
+  // Failures that don't surface through the module's own promise
+  const asyncFailures: unknown[] = [];
+  if (input.async) {
+    process.on('unhandledRejection', reason => {
+      // Errors from the context aren't instances of the worker's Error
+      asyncFailures.push(typeof reason === 'object' && reason !== null && 'message' in reason
+        ? reason
+        : new Error(`Unhandled promise rejection: ${String(reason)}`));
+    });
+    process.on('uncaughtException', error => asyncFailures.push(error));
+  }
+
+  const context = vm.createContext({
+    console: createConsoleCapture(entry => post({ type: 'log', entry }), {
+      sourceMap: input.sourceMap,
+      lineOffset: WRAPPER_LINE_OFFSET
+    }),
+    ...timers.globals,
+    ...network,
+    queueMicrotask,
+    ...input.customGlobals
+  });
+
+  // The async wrapper also makes top-level await (see toAsyncCommonJS) valid
+  const wrappedCode = withSourceURL(
+    `(${input.async ? 'async ' : ''}function (exports, require, module, __filename, __dirname) {${input.strictMode ? "'use strict';" : ''}\n` +
+    `${input.code}\n})`
+  );
+  const moduleFunction = vm.runInContext(wrappedCode, context, {
+    filename: SNIPPET_SOURCE_URL,
+    timeout: input.timeout
+  });
+
+  try {
+    if (!input.async) {
+      moduleFunction(module.exports, loader.require, module, SNIPPET_SOURCE_URL, input.projectRoot);
+      if (timers instanceof VirtualClock) {
+        timers.tick(input.clock?.advance ?? 0);
+      }
+      post({ type: 'result', output: toTransferable(module.exports) });
+      return;
+    }
+
+    await moduleFunction(module.exports, loader.require, module, SNIPPET_SOURCE_URL, input.projectRoot);
+    const output = await resolveExports(module.exports);
+    const pendingTimers = await timers.settle(input.clock?.advance ?? input.settleTimeout);
+
+    if (asyncFailures.length > 0) {
+      throw asyncFailures[0];
+    }
+    post({ type: 'result', output: toTransferable(output), pendingTimers });
+  } finally {
+    // Nothing the snippet scheduled outlives the run
+    timers.clearAll();
+  }
+}
+
+run(workerData as WorkerInput).catch(error => {
+  post({ type: 'error', error: serializeError(error) });
+});
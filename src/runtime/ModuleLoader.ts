@@ -0,0 +1,148 @@
+import * as path from 'path';
+import { builtinModules, createRequire } from 'module';
+import { minimatch } from 'minimatch';
+import { ModuleOptions } from '../types';
+
+/**
+ * Builtins that reach outside the sandbox (files, processes, network, the
+ * runtime itself). Blocked unless listed in `modules.allow`.
+ */
+export const DEFAULT_DENIED_MODULES = [
+  'fs',
+  'fs/promises',
+  'child_process',
+  'cluster',
+  'worker_threads',
+  'net',
+  'tls',
+  'dgram',
+  'dns',
+  'http',
+  'https',
+  'http2',
+  'inspector',
+  'module',
+  'os',
+  'process',
+  'repl',
+  'v8',
+  'vm'
+];
+
+export class ModuleBlockedError extends Error {
+  readonly specifier: string;
+
+  constructor(specifier: string, reason: string) {
+    super(`Import of "${specifier}" was blocked by the sandbox: ${reason}`);
+    this.name = 'ModuleBlockedError';
+    this.specifier = specifier;
+  }
+}
+
+/**
+ * The `require` handed to sandboxed code. Mocks win over everything, then
+ * the denylist and allowlist decide; packages and relative paths are loaded
+ * from the project, not from part-render's own node_modules.
+ *
+ * Only the snippet's own imports go through the loader; modules it loads
+ * keep Node's regular `require` for their internals.
+ */
+export class ModuleLoader {
+  private projectRoot: string;
+  private options: ModuleOptions;
+  private projectRequire: NodeRequire;
+  private loaded = new Map<string, unknown>();
+
+  constructor(projectRoot: string, options: ModuleOptions = {}) {
+    this.projectRoot = path.resolve(projectRoot);
+    this.options = options;
+    this.projectRequire = createRequire(path.join(this.projectRoot, 'package.json'));
+  }
+
+  require = (specifier: string): unknown => {
+    const mock = this.findMock(specifier);
+    if (mock !== undefined) {
+      return typeof mock === 'string'
+        ? this.load(path.resolve(this.projectRoot, mock))
+        : mock;
+    }
+
+    const reason = this.getBlockReason(specifier);
+    if (reason) {
+      throw new ModuleBlockedError(specifier, reason);
+    }
+
+    return this.load(this.isPath(specifier) ? path.resolve(this.projectRoot, specifier) : specifier);
+  };
+
+  /**
+   * Why the specifier may not be loaded, or undefined when it may.
+   */
+  getBlockReason(specifier: string): string | undefined {
+    if (this.isPath(specifier)) {
+      const relative = path.relative(this.projectRoot, path.resolve(this.projectRoot, specifier));
+      return relative.startsWith('..') || path.isAbsolute(relative)
+        ? `it is outside the project root ${this.projectRoot}`
+        : undefined;
+    }
+
+    const deniedBy = (this.options.deny || []).find(pattern => this.matches(specifier, pattern));
+    if (deniedBy) {
+      return `it matches modules.deny entry "${deniedBy}"`;
+    }
+
+    const allowedBy = (this.options.allow || []).find(pattern => this.matches(specifier, pattern));
+    if (!allowedBy && DEFAULT_DENIED_MODULES.some(name => this.matches(specifier, name))) {
+      return 'it is a Node builtin with access outside the sandbox; add it to modules.allow to permit it';
+    }
+    if (!allowedBy && this.options.allow) {
+      return `it is not in modules.allow (${this.options.allow.join(', ') || 'empty'})`;
+    }
+
+    return undefined;
+  }
+
+  private load(request: string): unknown {
+    if (!this.loaded.has(request)) {
+      this.loaded.set(request, this.projectRequire(request));
+    }
+    return this.loaded.get(request);
+  }
+
+  private findMock(specifier: string): unknown {
+    const mocks = this.options.mocks || {};
+    if (Object.prototype.hasOwnProperty.call(mocks, specifier)) {
+      return mocks[specifier];
+    }
+
+    const builtin = stripNodePrefix(specifier);
+    return Object.prototype.hasOwnProperty.call(mocks, builtin) ? mocks[builtin] : undefined;
+  }
+
+  /**
+   * Patterns match the specifier or its package name, so "lodash" also
+   * covers "lodash/get"; globs like "@mui/*" are supported.
+   */
+  private matches(specifier: string, pattern: string): boolean {
+    const normalized = stripNodePrefix(specifier);
+    const normalizedPattern = stripNodePrefix(pattern);
+    return [normalized, getPackageName(normalized)].some(name =>
+      name === normalizedPattern || minimatch(name, normalizedPattern)
+    );
+  }
+
+  private isPath(specifier: string): boolean {
+    return specifier.startsWith('.') || path.isAbsolute(specifier);
+  }
+}
+
+function stripNodePrefix(specifier: string): string {
+  return specifier.startsWith('node:') && builtinModules.includes(specifier.slice(5))
+    ? specifier.slice(5)
+    : specifier;
+}
+
+export function getPackageName(specifier: string): string {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
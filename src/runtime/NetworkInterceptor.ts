@@ -0,0 +1,318 @@
+import { minimatch } from 'minimatch';
+import { NetworkMock, NetworkOptions, NetworkRequest } from '../types';
+
+type HeadersInit = ConstructorParameters<typeof Headers>[0];
+
+// Captured before any sandbox replaces the global one
+const nativeFetch = globalThis.fetch;
+
+/** Relative URLs resolve against this, like the JSDOM window's location */
+export const DEFAULT_BASE_URL = 'http://localhost/';
+
+interface InterceptedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+interface InterceptedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  url: string;
+}
+
+export interface NetworkInterceptorOptions extends NetworkOptions {
+  /** Schedules mock delays, so they follow the sandbox's (possibly virtual) timers */
+  setTimeout?: (callback: () => void, ms: number) => unknown;
+  /** Timestamps recorded requests */
+  now?: () => number;
+  /** Called for every request as it is made */
+  onRequest?: (request: NetworkRequest) => void;
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  205: 'Reset Content',
+  304: 'Not Modified',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  500: 'Internal Server Error'
+};
+
+// Responses with these statuses can't have a body, not even an empty one
+const NULL_BODY_STATUSES = new Set([101, 103, 204, 205, 304]);
+
+/**
+ * Answers the sandbox's `fetch` and `XMLHttpRequest` from a table of mocks
+ * and records every request made. Requests no mock matches fail like a
+ * network error unless `unmatched` is 'passthrough'.
+ */
+export class NetworkInterceptor {
+  readonly requests: NetworkRequest[] = [];
+  private options: NetworkInterceptorOptions;
+
+  constructor(options: NetworkInterceptorOptions = {}) {
+    for (const mock of options.mocks || []) {
+      const status = mock.status ?? 200;
+      if (!Number.isInteger(status) || status < 200 || status > 599) {
+        throw new RangeError(`Network mock for ${mock.method || 'any method'} ${mock.url} has status ${status}; mock statuses must be between 200 and 599`);
+      }
+    }
+    this.options = options;
+  }
+
+  /**
+   * fetch, XMLHttpRequest and the fetch classes, to install in a sandbox or
+   * window.
+   */
+  createGlobals(): Record<string, unknown> {
+    return {
+      fetch: this.fetch,
+      XMLHttpRequest: this.createXMLHttpRequest(),
+      Headers,
+      Request,
+      Response
+    };
+  }
+
+  fetch = async (input: string | URL | { url: string; method?: string; headers?: HeadersInit }, init: RequestInit = {}): Promise<Response> => {
+    const target = typeof input === 'string' || input instanceof URL ? { url: String(input) } : input;
+    const response = await this.handle({
+      method: (init.method || ('method' in target && target.method) || 'GET').toUpperCase(),
+      url: this.resolveUrl(target.url),
+      headers: normalizeHeaders(init.headers || ('headers' in target ? target.headers : undefined)),
+      body: init.body === undefined || init.body === null ? undefined : String(init.body)
+    });
+
+    const result = new Response(NULL_BODY_STATUSES.has(response.status) ? null : response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+    Object.defineProperty(result, 'url', { value: response.url });
+    return result;
+  };
+
+  private async handle(request: InterceptedRequest): Promise<InterceptedResponse> {
+    const mock = this.options.mocks?.find(candidate => this.matches(candidate, request));
+    const handledBy = mock ? 'mock' : this.options.unmatched === 'passthrough' ? 'network' : 'blocked';
+
+    const record: NetworkRequest = {
+      ...request,
+      timestamp: (this.options.now || Date.now)(),
+      handledBy,
+      ...(mock ? { status: mock.status ?? 200 } : {})
+    };
+    this.requests.push(record);
+    this.options.onRequest?.(record);
+
+    if (mock) {
+      if (mock.delay) {
+        await new Promise<void>(resolve => (this.options.setTimeout || setTimeout)(resolve, mock.delay!));
+      }
+      return createMockResponse(mock, request.url);
+    }
+
+    if (handledBy === 'network') {
+      const response = await nativeFetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body
+      });
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        headers: Object.fromEntries(response.headers.entries()),
+        body: await response.text(),
+        url: request.url
+      };
+    }
+
+    throw new TypeError(`Failed to fetch: no network mock matches ${request.method} ${request.url}`);
+  }
+
+  /**
+   * Methods compare case-insensitively. URL patterns are exact URLs, globs
+   * ("https://api.example.com/users/*") or RegExps; patterns starting with
+   * "/" are resolved like request URLs, and a pattern without a query
+   * string ignores the request's.
+   */
+  private matches(mock: NetworkMock, request: InterceptedRequest): boolean {
+    if (mock.method && mock.method.toUpperCase() !== request.method) {
+      return false;
+    }
+
+    const urlWithoutQuery = request.url.replace(/[?#].*$/, '');
+    if (mock.url instanceof RegExp) {
+      return mock.url.test(request.url);
+    }
+
+    const pattern = mock.url.startsWith('/') ? this.resolveUrl(mock.url) : mock.url;
+    return [request.url, urlWithoutQuery].some(url => url === pattern || minimatch(url, pattern));
+  }
+
+  private resolveUrl(url: string): string {
+    try {
+      return new URL(url, this.options.baseUrl || DEFAULT_BASE_URL).href;
+    } catch {
+      return url;
+    }
+  }
+
+  private createXMLHttpRequest(): unknown {
+    const interceptor = this;
+
+    type Listener = (event: { type: string; target: unknown }) => void;
+
+    return class MockXMLHttpRequest {
+      static readonly UNSENT = 0;
+      static readonly OPENED = 1;
+      static readonly HEADERS_RECEIVED = 2;
+      static readonly LOADING = 3;
+      static readonly DONE = 4;
+
+      readyState = 0;
+      status = 0;
+      statusText = '';
+      responseText = '';
+      response: unknown = '';
+      responseType = '';
+      responseURL = '';
+      timeout = 0;
+      withCredentials = false;
+      upload = { addEventListener: () => undefined, removeEventListener: () => undefined };
+      onreadystatechange: Listener | null = null;
+      onload: Listener | null = null;
+      onerror: Listener | null = null;
+      onabort: Listener | null = null;
+      onloadend: Listener | null = null;
+      ontimeout: Listener | null = null;
+
+      private method = 'GET';
+      private url = '';
+      private requestHeaders: Record<string, string> = {};
+      private responseHeaders: Record<string, string> = {};
+      private listeners = new Map<string, Set<Listener>>();
+      private aborted = false;
+
+      open(method: string, url: string | URL): void {
+        this.method = method.toUpperCase();
+        this.url = String(url);
+        this.setReadyState(1);
+      }
+
+      setRequestHeader(name: string, value: string): void {
+        this.requestHeaders[name.toLowerCase()] = value;
+      }
+
+      getResponseHeader(name: string): string | null {
+        return this.responseHeaders[name.toLowerCase()] ?? null;
+      }
+
+      getAllResponseHeaders(): string {
+        return Object.entries(this.responseHeaders).map(([name, value]) => `${name}: ${value}\r\n`).join('');
+      }
+
+      overrideMimeType(): void {
+        // Responses are mocked, there is nothing to override
+      }
+
+      send(body?: unknown): void {
+        interceptor.handle({
+          method: this.method,
+          url: interceptor.resolveUrl(this.url),
+          headers: this.requestHeaders,
+          body: body === undefined || body === null ? undefined : String(body)
+        }).then(response => {
+          if (this.aborted) {
+            return;
+          }
+          this.status = response.status;
+          this.statusText = response.statusText;
+          this.responseURL = response.url;
+          this.responseHeaders = Object.fromEntries(
+            Object.entries(response.headers).map(([name, value]) => [name.toLowerCase(), value])
+          );
+          this.responseText = response.body;
+          this.response = this.responseType === 'json' ? safeJsonParse(response.body) : response.body;
+          this.setReadyState(4);
+          this.dispatch('load');
+          this.dispatch('loadend');
+        }, () => {
+          if (this.aborted) {
+            return;
+          }
+          this.setReadyState(4);
+          this.dispatch('error');
+          this.dispatch('loadend');
+        });
+      }
+
+      abort(): void {
+        this.aborted = true;
+        this.setReadyState(0);
+        this.dispatch('abort');
+      }
+
+      addEventListener(type: string, listener: Listener): void {
+        if (!this.listeners.has(type)) {
+          this.listeners.set(type, new Set());
+        }
+        this.listeners.get(type)!.add(listener);
+      }
+
+      removeEventListener(type: string, listener: Listener): void {
+        this.listeners.get(type)?.delete(listener);
+      }
+
+      private setReadyState(state: number): void {
+        this.readyState = state;
+        this.dispatch('readystatechange');
+      }
+
+      private dispatch(type: string): void {
+        const event = { type, target: this };
+        const handler = (this as unknown as Record<string, Listener | null>)[`on${type}`];
+        handler?.call(this, event);
+        this.listeners.get(type)?.forEach(listener => listener.call(this, event));
+      }
+    };
+  }
+}
+
+function createMockResponse(mock: NetworkMock, url: string): InterceptedResponse {
+  const status = mock.status ?? 200;
+  const headers: Record<string, string> = { ...mock.headers };
+  const isText = typeof mock.body === 'string';
+
+  if (mock.body !== undefined && !isText && !Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+    headers['content-type'] = 'application/json';
+  }
+
+  return {
+    status,
+    statusText: STATUS_TEXT[status] || '',
+    headers,
+    body: mock.body === undefined ? '' : isText ? mock.body as string : JSON.stringify(mock.body),
+    url
+  };
+}
+
+function normalizeHeaders(headers: HeadersInit | undefined): Record<string, string> {
+  return headers ? Object.fromEntries(new Headers(headers).entries()) : {};
+}
+
+function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Timer functions installed in a sandbox. They keep track of what sandboxed
+ * code scheduled, so a run can wait for it to settle and cancel whatever is
+ * left when it ends.
+ */
+export interface SandboxTimers {
+  /** setTimeout & co. to expose to sandboxed code, plus Date and Math for a virtual clock */
+  readonly globals: Record<string, unknown>;
+  /**
+   * Lets timeouts fire for up to ms, flushing microtasks in between, until
+   * none are pending. Intervals never settle, so they aren't waited for.
+   * Returns how many timeouts are still pending.
+   */
+  settle(ms: number): Promise<number>;
+  /** Cancels every timer the sandboxed code created */
+  clearAll(): void;
+}
+
+/**
+ * Resolves once the microtask queue has drained, since setImmediate
+ * callbacks run after it.
+ */
+export function flushMicrotasks(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+/**
+ * The host's real timers, tracked.
+ */
+export class RealTimers implements SandboxTimers {
+  readonly globals: Record<string, unknown>;
+  // Timeouts and immediates that haven't fired yet
+  private pending = new Set<unknown>();
+  private intervals = new Set<NodeJS.Timeout>();
+  private notify?: () => void;
+
+  constructor() {
+    // A handle both clearTimeout and clearImmediate accept
+    const clear = (clearNative: (handle: NodeJS.Timeout & NodeJS.Immediate) => void) =>
+      (handle: NodeJS.Timeout & NodeJS.Immediate) => {
+        clearNative(handle);
+        this.pending.delete(handle);
+        this.fired();
+      };
+
+    this.globals = {
+      setTimeout: (callback: Function, delay?: number, ...args: unknown[]) =>
+        this.track(run => setTimeout(run, delay), callback, args),
+      setImmediate: (callback: Function, ...args: unknown[]) =>
+        this.track(run => setImmediate(run), callback, args),
+      setInterval: (callback: Function, delay?: number, ...args: unknown[]) => {
+        const handle = setInterval(() => {
+          callback(...args);
+          this.fired();
+        }, delay);
+        this.intervals.add(handle);
+        return handle;
+      },
+      clearTimeout: clear(clearTimeout),
+      clearImmediate: clear(clearImmediate),
+      clearInterval: (handle: NodeJS.Timeout) => {
+        clearInterval(handle);
+        this.intervals.delete(handle);
+      }
+    };
+  }
+
+  async settle(ms: number): Promise<number> {
+    const deadline = Date.now() + ms;
+
+    for (;;) {
+      await flushMicrotasks();
+      const remaining = deadline - Date.now();
+      if (this.pending.size === 0 || remaining <= 0) {
+        return this.pending.size;
+      }
+      await this.waitForActivity(remaining);
+    }
+  }
+
+  clearAll(): void {
+    for (const handle of this.pending) {
+      clearTimeout(handle as NodeJS.Timeout);
+      clearImmediate(handle as NodeJS.Immediate);
+    }
+    this.intervals.forEach(handle => clearInterval(handle));
+    this.pending.clear();
+    this.intervals.clear();
+  }
+
+  private track<T>(schedule: (run: () => void) => T, callback: Function, args: unknown[]): T {
+    const handle = schedule(() => {
+      try {
+        callback(...args);
+      } finally {
+        this.pending.delete(handle);
+        this.fired();
+      }
+    });
+    this.pending.add(handle);
+    return handle;
+  }
+
+  private fired(): void {
+    this.notify?.();
+  }
+
+  // Resolves when a timer callback ran, or after ms
+  private waitForActivity(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.notify = undefined;
+        resolve();
+      }, ms);
+      this.notify = () => {
+        clearTimeout(timer);
+        this.notify = undefined;
+        resolve();
+      };
+    });
+  }
+}
@@ -0,0 +1,197 @@
+import { ClockOptions } from '../types';
+import { flushMicrotasks, SandboxTimers } from './SandboxTimers';
+
+/** 2024-01-01T00:00:00.000Z */
+export const DEFAULT_CLOCK_TIME = 1704067200000;
+/** Like fake-timers' loopLimit */
+export const DEFAULT_LOOP_LIMIT = 1000;
+
+export class TimerLoopError extends Error {
+  readonly loopLimit: number;
+
+  constructor(loopLimit: number) {
+    super(`Aborted after running ${loopLimit} timers without the clock settling; ` +
+      'the code probably keeps scheduling new timers. Raise clock.loopLimit if it needs more');
+    this.name = 'TimerLoopError';
+    this.loopLimit = loopLimit;
+  }
+}
+
+interface VirtualTimer {
+  id: number;
+  /** Virtual time the timer fires at */
+  time: number;
+  /** Set for intervals */
+  interval?: number;
+  callback: Function;
+  args: unknown[];
+}
+
+/**
+ * A deterministic clock for sandboxed code: `Date` is frozen at a fixed
+ * time, timers only fire when the clock is advanced, and `Math.random` is
+ * seeded. Renders that show times or run animations come out the same on
+ * every run.
+ */
+export class VirtualClock implements SandboxTimers {
+  readonly globals: Record<string, unknown>;
+  private now: number;
+  private timers = new Map<number, VirtualTimer>();
+  private nextId = 1;
+  private loopLimit: number;
+
+  constructor(options: ClockOptions = {}) {
+    this.now = options.now === undefined ? DEFAULT_CLOCK_TIME : new Date(options.now).getTime();
+    if (Number.isNaN(this.now)) {
+      throw new Error(`Invalid clock time: ${options.now}`);
+    }
+    this.loopLimit = options.loopLimit ?? DEFAULT_LOOP_LIMIT;
+
+    this.globals = {
+      ...this.createTimerGlobals(),
+      Date: this.createDate(),
+      Math: Object.create(Math, {
+        random: { value: createSeededRandom(options.seed ?? 1) }
+      })
+    };
+  }
+
+  getNow(): number {
+    return this.now;
+  }
+
+  /**
+   * Moves the clock forward by ms, running every timer that falls due on
+   * the way in order. Throws a TimerLoopError once more than loopLimit
+   * timers have run.
+   */
+  tick(ms: number): void {
+    const target = this.now + ms;
+    let timer: VirtualTimer | undefined;
+    let fired = 0;
+    while ((timer = this.getNextTimer()) && timer.time <= target) {
+      this.checkLoopLimit(++fired);
+      this.fire(timer);
+    }
+    this.now = target;
+  }
+
+  async settle(ms: number): Promise<number> {
+    const deadline = this.now + ms;
+    let fired = 0;
+
+    for (;;) {
+      await flushMicrotasks();
+      const timer = this.getNextTimer();
+      if (this.countPendingTimeouts() === 0 || !timer || timer.time > deadline) {
+        return this.countPendingTimeouts();
+      }
+      this.checkLoopLimit(++fired);
+      this.fire(timer);
+    }
+  }
+
+  clearAll(): void {
+    this.timers.clear();
+  }
+
+  private createTimerGlobals(): Record<string, unknown> {
+    const schedule = (callback: Function, delay: number | undefined, args: unknown[], interval: boolean) => {
+      const id = this.nextId++;
+      const ms = Math.max(0, Number(delay) || 0);
+      this.timers.set(id, {
+        id,
+        time: this.now + ms,
+        // Like Node, an interval fires at most once per millisecond
+        interval: interval ? Math.max(1, ms) : undefined,
+        callback,
+        args
+      });
+      return id;
+    };
+    const clear = (id: number) => {
+      this.timers.delete(id);
+    };
+
+    return {
+      setTimeout: (callback: Function, delay?: number, ...args: unknown[]) => schedule(callback, delay, args, false),
+      setInterval: (callback: Function, delay?: number, ...args: unknown[]) => schedule(callback, delay, args, true),
+      setImmediate: (callback: Function, ...args: unknown[]) => schedule(callback, 0, args, false),
+      clearTimeout: clear,
+      clearInterval: clear,
+      clearImmediate: clear
+    };
+  }
+
+  private createDate(): DateConstructor {
+    const clock = this;
+
+    class VirtualDate extends Date {
+      constructor(...args: unknown[]) {
+        if (args.length === 0) {
+          super(clock.now);
+        } else {
+          super(...(args as [number]));
+        }
+      }
+
+      static now(): number {
+        return clock.now;
+      }
+    }
+
+    return VirtualDate as DateConstructor;
+  }
+
+  private getNextTimer(): VirtualTimer | undefined {
+    let next: VirtualTimer | undefined;
+    for (const timer of this.timers.values()) {
+      if (!next || timer.time < next.time || (timer.time === next.time && timer.id < next.id)) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+
+  // Drops the pending timers too, so nothing of the loop is left to run
+  private checkLoopLimit(fired: number): void {
+    if (fired > this.loopLimit) {
+      this.clearAll();
+      throw new TimerLoopError(this.loopLimit);
+    }
+  }
+
+  private fire(timer: VirtualTimer): void {
+    this.now = Math.max(this.now, timer.time);
+    if (timer.interval) {
+      timer.time += timer.interval;
+    } else {
+      this.timers.delete(timer.id);
+    }
+    timer.callback(...timer.args);
+  }
+
+  private countPendingTimeouts(): number {
+    let count = 0;
+    this.timers.forEach(timer => {
+      if (!timer.interval) {
+        count++;
+      }
+    });
+    return count;
+  }
+}
+
+/**
+ * mulberry32: small, fast and good enough for reproducible renders.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -1,3 +1,4 @@
+import type { ComponentType, ReactElement } from 'react';
 import { LogLevel, LogCategory } from '../utils/Logger';
 
 export interface LoggerConfig {
@@ -16,18 +17,68 @@ export interface RenderConfig {
   ollamaModel?: string;
   timeout?: number;
   logger?: LoggerConfig;
+  scan?: ScanOptions;
+  cache?: CacheOptions;
+}
+
+export interface ScanOptions {
+  /** Globs (relative to projectRoot) of files to scan. Defaults to all ts/tsx/js/jsx files. */
+  include?: string[];
+  /** Extra globs to skip, on top of node_modules, dist, build, coverage and .git. */
+  exclude?: string[];
+  /** Honor .gitignore and .partrenderignore files at any depth. Defaults to true. */
+  respectIgnoreFiles?: boolean;
+  /** Files larger than this many bytes are skipped. Defaults to 1 MiB. */
+  maxFileSize?: number;
 }
 
 export interface CodeContext {
   projectFiles: ProjectFile[];
   dependencies: Record<string, string>;
   tsConfig?: any;
+  workspaces?: WorkspacePackage[];
+  /** Present when the project root is set up for Tailwind */
+  tailwind?: TailwindSetup;
+  /** partrender.config file in the project root, relative to it */
+  previewConfig?: string;
+}
+
+/** Config files of a Tailwind project, relative to the project root */
+export interface TailwindSetup {
+  /** tailwind.config.{js,cjs,mjs,ts}; Tailwind's defaults apply without one */
+  configPath?: string;
+  /** The PostCSS config that loads Tailwind's plugin; its other plugins run with Tailwind */
+  postcssConfigPath?: string;
+}
+
+/**
+ * A package of a monorepo workspace. projectFiles holds the files under the
+ * package root, with paths relative to the workspace root like the root context.
+ */
+export interface WorkspacePackage extends Omit<CodeContext, 'workspaces'> {
+  name: string;
+  /** Package directory, relative to the workspace root */
+  root: string;
+  packageJson: Record<string, any>;
 }
 
 export interface ProjectFile {
   path: string;
   content: string;
   type: 'tsx' | 'ts' | 'jsx' | 'js' | 'json' | 'other';
+  mtimeMs?: number;
+}
+
+export type FileChangeType = 'add' | 'change' | 'unlink';
+
+export interface FileChangeEvent {
+  type: FileChangeType;
+  path: string;
+  file?: ProjectFile;
+}
+
+export interface WatchOptions {
+  debounceMs?: number;
 }
 
 export interface JSXSnippet {
@@ -36,14 +87,95 @@ export interface JSXSnippet {
   dependencies?: string[];
 }
 
+export interface ValidateOptions {
+  /** Also type-check the snippet against the project's program. Defaults to false. */
+  typeCheck?: boolean;
+  /** Where the snippet would live, so relative imports resolve. Defaults to `snippet.tsx` in projectRoot. */
+  fileName?: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors?: string[];
+  diagnostics?: Diagnostic[];
+}
+
 export interface RenderResult {
   success: boolean;
   output?: any;
   error?: string;
-  logs?: string[];
+  /** Stack trace rewritten to snippet and project file positions */
+  stack?: string;
+  frames?: StackFrame[];
+  /** For render errors, the React component stack from the failing component up */
+  componentStack?: string;
+  /** With `streaming.chunks`, the streamed HTML in order: the shell with Suspense fallbacks first */
+  chunks?: string[];
+  diagnostics?: Diagnostic[];
+  logs?: LogEntry[];
+  /** Every fetch / XMLHttpRequest the code made */
+  requests?: NetworkRequest[];
   executionTime?: number;
 }
 
+/** Console method a log entry came from; `dir` is reported as `log`, `groupCollapsed` as `group` */
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug' | 'trace' | 'table' | 'group';
+
+export interface LogEntry {
+  level: ConsoleLevel;
+  /** The arguments formatted the way Node's console prints them */
+  message: string;
+  /** Each argument on its own, strings as-is and everything else inspected */
+  args: string[];
+  /** Milliseconds since the epoch */
+  timestamp: number;
+  /** Number of enclosing console.group calls */
+  groupDepth: number;
+  /** Where in the snippet or project the console call was made */
+  location?: StackFrame;
+}
+
+export interface StackFrame {
+  /** Project-relative path, or the snippet's file name */
+  file: string;
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+  /** The source line at that position */
+  snippet?: string;
+  functionName?: string;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+/** Pipeline stage a diagnostic came from */
+export type DiagnosticPhase = 'parse' | 'resolve' | 'typecheck' | 'compile' | 'runtime' | 'render' | 'interaction';
+
+export interface DiagnosticRange {
+  /** 1-based line and column, like StackFrame */
+  start: { line: number; column: number };
+  end: { line: number; column: number };
+}
+
+export interface DiagnosticFix {
+  description: string;
+  /** Text to put in place of the range, when the fix is a plain edit */
+  edit?: { range: DiagnosticRange; newText: string };
+}
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  /** e.g. an esbuild message id, a TypeScript `TS2304` or a runtime error name */
+  code?: string;
+  message: string;
+  /** Snippet file name or project-relative path */
+  file?: string;
+  range?: DiagnosticRange;
+  phase: DiagnosticPhase;
+  fixes?: DiagnosticFix[];
+}
+
 export interface AIModelResponse {
   success: boolean;
   data?: any;
@@ -55,10 +187,175 @@ export interface CompilationResult {
   code?: string;
   error?: string;
   warnings?: string[];
+  diagnostics?: Diagnostic[];
+  /** Source map of `code` (also inlined at its end), as JSON */
+  sourceMap?: string;
+  /** CSS the code imported (stylesheets, CSS modules, Sass), bundled in import order */
+  css?: string;
+  /** `code` uses top-level await, so it has to run as an async module (see PartRenderOptions.async) */
+  topLevelAwait?: boolean;
+  cache?: CacheStats;
+}
+
+export interface CacheOptions {
+  /** Defaults to true. */
+  enabled?: boolean;
+  /** Results kept in memory, and on disk when persisted, before the least recently used is evicted. Defaults to 100. */
+  maxEntries?: number;
+  /** Also persist results to disk so they survive restarts. Defaults to false. */
+  persist?: boolean;
+  /** Where persisted results go. Defaults to `<projectRoot>/.part-render/cache`. */
+  directory?: string;
+}
+
+export interface CacheStats {
+  /** Whether this result came from the cache */
+  hit: boolean;
+  key: string;
+  /** Running totals for the project's cache */
+  hits: number;
+  misses: number;
+  size: number;
 }
 
 export interface PartRenderOptions {
   enableLogs?: boolean;
   strictMode?: boolean;
+  /** Passed to the execution worker, so they must be structured-cloneable */
   customGlobals?: Record<string, any>;
+  /** Execution time limit in ms; the worker is terminated when it elapses. Defaults to RenderConfig.timeout, then 30000 */
+  timeout?: number;
+  /** Heap limit of the execution worker. Defaults to 128 */
+  memoryLimitMb?: number;
+  /** Directory snippets `require` packages from. Defaults to RenderConfig.projectRoot */
+  projectRoot?: string;
+  modules?: ModuleOptions;
+  /**
+   * Await top-level await and exported promises, then wait for pending
+   * timeouts and promise chains before reporting; unhandled rejections fail
+   * the run. Defaults to CompilationResult.topLevelAwait.
+   */
+  async?: boolean;
+  /** How long async runs wait for pending timeouts, in ms. Defaults to 1000 */
+  settleTimeout?: number;
+  /** Run with a virtual clock (see ClockOptions) instead of real time. Defaults to false */
+  clock?: boolean | ClockOptions;
+  /** How `fetch` and `XMLHttpRequest` are answered. Without mocks, every request fails */
+  network?: NetworkOptions;
+}
+
+export interface NetworkOptions {
+  /** Checked in order; the first match answers the request */
+  mocks?: NetworkMock[];
+  /** Requests no mock matches fail like a network error ('error', the default) or go out to the real network ('passthrough') */
+  unmatched?: 'error' | 'passthrough';
+  /** Base of relative URLs. Defaults to http://localhost/ */
+  baseUrl?: string;
+}
+
+export interface NetworkMock {
+  /** Matches any method when omitted */
+  method?: string;
+  /** An exact URL, a glob such as "https://api.example.com/users/*", or a RegExp */
+  url: string | RegExp;
+  /** 200 to 599, defaults to 200 */
+  status?: number;
+  /** Strings are sent as-is, anything else as JSON */
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Milliseconds before the response arrives */
+  delay?: number;
+}
+
+export interface NetworkRequest {
+  method: string;
+  /** Absolute URL */
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  timestamp: number;
+  /** Answered by a mock, sent to the real network, or failed because no mock matched */
+  handledBy: 'mock' | 'network' | 'blocked';
+  /** Status of the mock's response */
+  status?: number;
+}
+
+export interface MockPropsOptions {
+  /** Seeds the generated values; the same seed and props type give the same props. Defaults to 1 */
+  seed?: number;
+}
+
+/**
+ * What a project's partrender.config file exports by default: the providers
+ * previewed components need (theme, router, store, i18n), as decorators.
+ */
+export interface PreviewConfig {
+  /** Wrap every previewed component */
+  decorators?: PreviewDecorator[];
+  /** Settings of individual components, by component name */
+  components?: Record<string, { decorators?: PreviewDecorator[] }>;
+}
+
+/**
+ * Renders the component being previewed, given as `Story`, inside whatever
+ * it needs. In an array, each decorator wraps the ones before it; a
+ * component's own decorators are wrapped by the global ones.
+ */
+export type PreviewDecorator = (Story: ComponentType<any>, context: DecoratorContext) => ReactElement;
+
+export interface DecoratorContext {
+  componentName: string;
+  props: Record<string, any>;
+}
+
+export interface StreamingOptions {
+  /** How long to wait for Suspense boundaries to resolve, in ms (virtual ms under a virtual clock). Defaults to 5000 */
+  timeout?: number;
+  /** Also return the streamed chunks, to preview loading states */
+  chunks?: boolean;
+}
+
+export interface ClockOptions {
+  /** What `Date.now()` and `new Date()` return. Defaults to 2024-01-01T00:00:00Z */
+  now?: number | string;
+  /** Seed of `Math.random`. Defaults to 1 */
+  seed?: number;
+  /**
+   * Virtual ms to advance after the code ran, firing the timers that fall
+   * due. Defaults to 0, or to settleTimeout in async mode.
+   */
+  advance?: number;
+  /**
+   * Most timers one advance of the clock runs before it fails with a
+   * TimerLoopError, so code that keeps scheduling timers can't hang the
+   * run. Defaults to 1000
+   */
+  loopLimit?: number;
+}
+
+/**
+ * A user action performed on a mounted render. Steps run in order, each
+ * after the updates and effects of the one before have been flushed.
+ */
+export type Interaction =
+  | { type: 'click'; selector: string }
+  /** Types text into an input or textarea one key at a time, after its current value */
+  | { type: 'type'; selector: string; text: string }
+  /** Submits the matched form, or the form the matched element is in */
+  | { type: 'submit'; selector: string }
+  /** Lets time pass until an element matches. Timeout defaults to 1000ms, of virtual time under a virtual clock */
+  | { type: 'waitFor'; selector: string; timeout?: number };
+
+export interface ModuleOptions {
+  /** When set, only these modules (names or globs, e.g. "@mui/*") may be required */
+  allow?: string[];
+  /** Modules that may never be required, on top of the default builtin denylist */
+  deny?: string[];
+  /**
+   * Replacements by specifier. A string is a path, relative to the project
+   * root, of a module to load instead; anything else is returned as the
+   * module's exports. Executor copies mocks into its worker, so values must
+   * be structured-cloneable; mock functions need a module path.
+   */
+  mocks?: Record<string, unknown>;
 }
\ No newline at end of file
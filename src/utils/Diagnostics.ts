@@ -0,0 +1,144 @@
+import type { Message } from 'esbuild';
+import * as ts from 'typescript';
+import { Diagnostic, DiagnosticPhase, DiagnosticRange, DiagnosticSeverity, StackFrame } from '../types';
+import { MappedError } from './SourceMapper';
+
+const PARSE_ERROR_REGEX = /^(Expected|Unexpected|Unterminated|Invalid|The character|Syntax error)/;
+
+/**
+ * Converts an esbuild message. Resolution and syntax errors get their own
+ * phase; everything else falls under `defaultPhase`.
+ */
+export function fromEsbuildMessage(
+  message: Message,
+  severity: DiagnosticSeverity,
+  defaultPhase: DiagnosticPhase = 'compile'
+): Diagnostic {
+  const location = message.location;
+  const diagnostic: Diagnostic = {
+    severity,
+    code: message.id || undefined,
+    message: message.text,
+    phase: message.text.startsWith('Could not resolve')
+      ? 'resolve'
+      : PARSE_ERROR_REGEX.test(message.text) ? 'parse' : defaultPhase
+  };
+
+  if (location) {
+    const range: DiagnosticRange = {
+      start: { line: location.line, column: location.column + 1 },
+      end: { line: location.line, column: location.column + 1 + location.length }
+    };
+    diagnostic.file = location.file;
+    diagnostic.range = range;
+
+    if (location.suggestion) {
+      diagnostic.fixes = [{
+        description: location.length > 0
+          ? `Replace with "${location.suggestion}"`
+          : `Insert "${location.suggestion}"`,
+        edit: { range, newText: location.suggestion }
+      }];
+    }
+  }
+
+  return diagnostic;
+}
+
+/**
+ * Converts whatever esbuild.build/transform threw: a failure carrying
+ * messages, or any other error.
+ */
+export function fromEsbuildError(error: unknown, defaultPhase: DiagnosticPhase = 'compile'): Diagnostic[] {
+  const failure = error as { errors?: Message[]; warnings?: Message[] };
+  if (Array.isArray(failure?.errors) && failure.errors.length > 0) {
+    return [
+      ...failure.errors.map(message => fromEsbuildMessage(message, 'error', defaultPhase)),
+      ...(failure.warnings || []).map(message => fromEsbuildMessage(message, 'warning', defaultPhase))
+    ];
+  }
+
+  return [fromError(error, defaultPhase)];
+}
+
+/**
+ * Converts a runtime error already mapped to original positions; the
+ * innermost mapped frame becomes the diagnostic's location.
+ */
+export function fromMappedError(error: unknown, mapped: MappedError, phase: DiagnosticPhase): Diagnostic {
+  const diagnostic = fromError(error, phase);
+  diagnostic.message = mapped.message;
+
+  const frame = mapped.frames[0];
+  if (frame) {
+    diagnostic.file = frame.file;
+    diagnostic.range = rangeOfFrame(frame);
+  }
+
+  return diagnostic;
+}
+
+/**
+ * Converts a TypeScript diagnostic, reporting its file as displayFile when
+ * given (e.g. the snippet's name instead of its virtual path).
+ */
+export function fromTsDiagnostic(diagnostic: ts.Diagnostic, displayFile?: string): Diagnostic {
+  const result: Diagnostic = {
+    severity: diagnostic.category === ts.DiagnosticCategory.Error
+      ? 'error'
+      : diagnostic.category === ts.DiagnosticCategory.Warning ? 'warning' : 'info',
+    code: `TS${diagnostic.code}`,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    phase: 'typecheck'
+  };
+
+  if (diagnostic.file && diagnostic.start !== undefined) {
+    const start = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    const end = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start + (diagnostic.length || 0));
+    result.file = displayFile || diagnostic.file.fileName;
+    result.range = {
+      start: { line: start.line + 1, column: start.character + 1 },
+      end: { line: end.line + 1, column: end.character + 1 }
+    };
+  }
+
+  return result;
+}
+
+export function fromError(error: unknown, phase: DiagnosticPhase): Diagnostic {
+  return {
+    severity: 'error',
+    code: error instanceof Error ? error.name : undefined,
+    message: error instanceof Error ? error.message : String(error),
+    phase
+  };
+}
+
+/**
+ * Flattens diagnostics into the `file:line:column: message` lines used for
+ * the plain `error` strings.
+ */
+export function formatDiagnostics(diagnostics: Diagnostic[]): string {
+  return diagnostics
+    .filter(diagnostic => diagnostic.severity === 'error')
+    .map(formatDiagnostic)
+    .join('\n');
+}
+
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  if (!diagnostic.file) {
+    return diagnostic.message;
+  }
+
+  const position = diagnostic.range
+    ? `:${diagnostic.range.start.line}:${diagnostic.range.start.column}`
+    : '';
+  return `${diagnostic.file}${position}: ${diagnostic.message}`;
+}
+
+function rangeOfFrame(frame: StackFrame): DiagnosticRange {
+  return {
+    start: { line: frame.line, column: frame.column },
+    end: { line: frame.line, column: frame.column }
+  };
+}
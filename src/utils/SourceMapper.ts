@@ -0,0 +1,184 @@
+import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping';
+import { StackFrame } from '../types';
+
+/** Name compiled snippets are evaluated under, so their frames can be found in a stack */
+export const SNIPPET_SOURCE_URL = 'part-render://snippet.js';
+
+const INLINE_SOURCE_MAP_REGEX = /\/\/# sourceMappingURL=data:application\/json;(?:charset=utf-8;)?base64,([A-Za-z0-9+/=]+)\s*$/;
+const STACK_LINE_REGEX = /^(\s*at )(?:(.+?) \()?part-render:\/\/snippet\.js:(\d+):(\d+)\)?$/;
+
+export interface MappedError {
+  message: string;
+  stack?: string;
+  frames: StackFrame[];
+}
+
+/**
+ * Appends a sourceURL so stack frames of evaluated code point at
+ * SNIPPET_SOURCE_URL instead of an anonymous eval location. Inline source
+ * maps are blanked out, otherwise Node's --enable-source-maps would rewrite
+ * the frames before SourceMapper gets to see them.
+ */
+export function withSourceURL(code: string): string {
+  const withoutInlineMap = code.replace(/^\/\/# sourceMappingURL=data:.*$/gm, '');
+  return `${withoutInlineMap}\n//# sourceURL=${SNIPPET_SOURCE_URL}`;
+}
+
+/**
+ * Reads the source map esbuild inlined at the end of the bundle, as JSON.
+ */
+export function extractInlineSourceMap(code: string): string | undefined {
+  const match = code.match(INLINE_SOURCE_MAP_REGEX);
+  return match ? Buffer.from(match[1], 'base64').toString('utf-8') : undefined;
+}
+
+/**
+ * Number of lines an evaluation wrapper adds before the compiled code.
+ */
+export function getLineOffset(wrappedCode: string, code: string): number {
+  const index = wrappedCode.indexOf(code);
+  return index === -1 ? 0 : wrappedCode.slice(0, index).split('\n').length - 1;
+}
+
+/**
+ * Maps positions in an evaluated bundle back to the snippet and project
+ * files it was built from.
+ */
+export class SourceMapper {
+  private traceMap: TraceMap;
+  private lineOffset: number;
+
+  /**
+   * @param lineOffset lines the evaluation wrapper put before the bundle,
+   * e.g. 2 for `new Function(...)`
+   */
+  constructor(sourceMap: string, lineOffset = 0) {
+    this.traceMap = new TraceMap(sourceMap);
+    this.lineOffset = lineOffset;
+  }
+
+  /**
+   * Maps a 1-based line/column of the evaluated code, or returns null when
+   * it falls outside the bundle or has no mapping.
+   */
+  mapPosition(line: number, column: number, functionName?: string): StackFrame | null {
+    const generatedLine = line - this.lineOffset;
+    if (generatedLine < 1) {
+      return null;
+    }
+
+    const original = originalPositionFor(this.traceMap, {
+      line: generatedLine,
+      column: Math.max(0, column - 1)
+    });
+    if (!original.source || original.line === null) {
+      return null;
+    }
+
+    return {
+      file: original.source,
+      line: original.line,
+      column: original.column + 1,
+      snippet: this.getSourceLine(original.source, original.line),
+      ...(functionName ? { functionName } : {})
+    };
+  }
+
+  /**
+   * Rewrites the snippet frames of an error's stack to original positions.
+   * Frames from anywhere else are kept in the stack but not returned.
+   */
+  mapError(error: unknown): MappedError {
+    const message = error instanceof Error ? error.message : String(error);
+    const stack = error instanceof Error ? error.stack : undefined;
+
+    return stack ? { message, ...this.mapStack(stack) } : { message, frames: [] };
+  }
+
+  /**
+   * Rewrites the snippet frames of any V8-style stack, such as the component
+   * stacks React builds in development.
+   */
+  mapStack(stack: string): { stack: string; frames: StackFrame[] } {
+    const frames: StackFrame[] = [];
+
+    const mappedStack = stack.split('\n').map(stackLine => {
+      const match = stackLine.match(STACK_LINE_REGEX);
+      if (!match) {
+        return stackLine;
+      }
+
+      const [, prefix, functionName, line, column] = match;
+      const frame = this.mapPosition(Number(line), Number(column), functionName);
+      if (!frame) {
+        return stackLine;
+      }
+
+      frames.push(frame);
+      const location = `${frame.file}:${frame.line}:${frame.column}`;
+      return functionName ? `${prefix}${functionName} (${location})` : `${prefix}${location}`;
+    }).join('\n');
+
+    return { stack: mappedStack, frames };
+  }
+
+  private getSourceLine(source: string, line: number): string | undefined {
+    const index = this.traceMap.sources.indexOf(source);
+    const content = index === -1 ? null : this.traceMap.sourcesContent?.[index];
+    return content?.split('\n')[line - 1]?.trim();
+  }
+}
+
+/**
+ * Position of the innermost snippet frame of a stack, in evaluated-code
+ * coordinates. Used to find where a console call was made.
+ */
+export function getSnippetPosition(stack: string | undefined): { line: number; column: number } | undefined {
+  for (const stackLine of (stack || '').split('\n')) {
+    const match = stackLine.match(STACK_LINE_REGEX);
+    if (match) {
+      return { line: Number(match[3]), column: Number(match[4]) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Maps an error thrown by evaluated code, falling back to the bare message
+ * when there is no usable source map.
+ */
+export function mapRuntimeError(error: unknown, sourceMap: string | undefined, lineOffset = 0): MappedError {
+  if (sourceMap) {
+    try {
+      return new SourceMapper(sourceMap, lineOffset).mapError(error);
+    } catch {
+      // A malformed map shouldn't hide the original error
+    }
+  }
+
+  return {
+    message: error instanceof Error ? error.message : String(error),
+    stack: error instanceof Error ? error.stack : undefined,
+    frames: []
+  };
+}
+
+/**
+ * Maps a React component stack like mapRuntimeError maps an error's, leaving
+ * it as it is when there is no usable source map.
+ */
+export function mapComponentStack(
+  componentStack: string,
+  sourceMap: string | undefined,
+  lineOffset = 0
+): { stack: string; frames: StackFrame[] } {
+  if (sourceMap) {
+    try {
+      return new SourceMapper(sourceMap, lineOffset).mapStack(componentStack);
+    } catch {
+      // A malformed map shouldn't hide the component stack
+    }
+  }
+
+  return { stack: componentStack, frames: [] };
+}
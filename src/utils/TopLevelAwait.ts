@@ -0,0 +1,107 @@
+import * as ts from 'typescript';
+
+const SOURCE_MAP_COMMENT_REGEX = /\/\/# sourceMappingURL=\S+\s*$/;
+// Depending on the target esbuild reports the output format or the target
+// environment as what doesn't support it
+const TOP_LEVEL_AWAIT_ERROR = 'Top-level await is ';
+
+/**
+ * Whether esbuild rejected a CommonJS build because of a top-level await.
+ */
+export function isTopLevelAwaitError(error: unknown): boolean {
+  const failure = error as { errors?: Array<{ text: string }> };
+  return Array.isArray(failure?.errors) &&
+    failure.errors.some(message => message.text.startsWith(TOP_LEVEL_AWAIT_ERROR));
+}
+
+/**
+ * Rewrites an esbuild ESM bundle into the body of an async CommonJS module
+ * function: imports become `require` calls and the export clause becomes
+ * `exports` getters, while top-level `await` is left for the async wrapper.
+ *
+ * Every statement keeps its line count, so the bundle's inline source map
+ * still lines up.
+ */
+export function toAsyncCommonJS(code: string): string {
+  const sourceFile = ts.createSourceFile('bundle.mjs', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.JS);
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  let importCount = 0;
+
+  for (const statement of sourceFile.statements) {
+    let replacement: string | undefined;
+
+    if (ts.isImportDeclaration(statement)) {
+      replacement = convertImport(statement, `__import${importCount++}`);
+    } else if (ts.isExportDeclaration(statement) && !statement.isTypeOnly) {
+      replacement = convertExport(statement);
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      replacement = `exports.default = ${statement.expression.getText(sourceFile)};`;
+    }
+
+    if (replacement !== undefined) {
+      const start = statement.getStart(sourceFile);
+      const lineBreaks = code.slice(start, statement.end).split('\n').length - 1;
+      edits.push({ start, end: statement.end, text: replacement + '\n'.repeat(lineBreaks) });
+    }
+  }
+
+  let result = code;
+  for (const edit of edits.reverse()) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+
+  // Function declarations are hoisted, so the helpers can go last and leave
+  // every line of the bundle where it was. The source map comment stays last.
+  const sourceMapComment = result.match(SOURCE_MAP_COMMENT_REGEX)?.[0] || '';
+  return `${result.slice(0, result.length - sourceMapComment.length)}
+Object.defineProperty(exports, '__esModule', { value: true });
+function __toESM(mod) {
+  return mod && mod.__esModule ? mod : Object.assign({}, mod, { default: mod });
+}
+${sourceMapComment.trim()}`;
+}
+
+function convertImport(declaration: ts.ImportDeclaration, local: string): string {
+  const specifier = (declaration.moduleSpecifier as ts.StringLiteral).text;
+  const clause = declaration.importClause;
+  if (!clause) {
+    return `require(${JSON.stringify(specifier)});`;
+  }
+
+  const statements = [`const ${local} = __toESM(require(${JSON.stringify(specifier)}));`];
+  if (clause.name) {
+    statements.push(`const ${clause.name.text} = ${local}.default;`);
+  }
+
+  const bindings = clause.namedBindings;
+  if (bindings && ts.isNamespaceImport(bindings)) {
+    statements.push(`const ${bindings.name.text} = ${local};`);
+  } else if (bindings && bindings.elements.length > 0) {
+    const names = bindings.elements.map(element => element.propertyName
+      ? `${element.propertyName.text}: ${element.name.text}`
+      : element.name.text);
+    statements.push(`const { ${names.join(', ')} } = ${local};`);
+  }
+
+  return statements.join(' ');
+}
+
+function convertExport(declaration: ts.ExportDeclaration): string {
+  const source = declaration.moduleSpecifier
+    ? `__toESM(require(${JSON.stringify((declaration.moduleSpecifier as ts.StringLiteral).text)}))`
+    : undefined;
+
+  if (!declaration.exportClause) {
+    // export * from '...'
+    return `Object.keys(${source}).forEach(key => { if (key !== 'default' && !(key in exports)) exports[key] = ${source}[key]; });`;
+  }
+  if (ts.isNamespaceExport(declaration.exportClause)) {
+    return `exports.${declaration.exportClause.name.text} = ${source};`;
+  }
+
+  return declaration.exportClause.elements.map(element => {
+    const local = (element.propertyName || element.name).text;
+    const value = source ? `${source}.${local}` : local;
+    return `Object.defineProperty(exports, ${JSON.stringify(element.name.text)}, { enumerable: true, get: () => ${value} });`;
+  }).join(' ');
+}